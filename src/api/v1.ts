@@ -0,0 +1,211 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { config } from '../config';
+import { getRegionValueByCode } from '../constants/regions';
+import { Lead } from '../database/models/Lead';
+import { User } from '../database/models/User';
+import { logger } from '../logger';
+import { triggerImmediateParse } from '../scheduler';
+import { removeFiltersOfUnsubscribedRegions } from '../services/filterService';
+import { searchLeads } from '../services/leadService';
+import { getSubscriptionConfig, saveSubscriptionConfig } from '../services/userConfigService';
+import { addUserToWhitelist, removeUsersFromWhitelist } from '../services/userService';
+import { isValidIsoDate } from '../utils/dates';
+import { safeEqual } from '../utils/secrets';
+
+const router = Router();
+
+// =================================================================================
+// АВТОРИЗАЦИЯ
+// =================================================================================
+// Ключ передается в заголовке X-API-Key или как Authorization: Bearer <ключ>
+function requireApiKey(req: Request, res: Response, next: NextFunction) {
+	if (config.API_KEYS.length === 0) {
+		res.status(503).json({ error: 'API disabled' });
+		return;
+	}
+
+	const authorization = req.headers.authorization || '';
+	const apiKey = req.header('x-api-key') || (authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '');
+	if (!apiKey || !config.API_KEYS.some(key => safeEqual(key, apiKey))) {
+		res.status(401).json({ error: 'Unauthorized' });
+		return;
+	}
+	next();
+}
+
+router.use(requireApiKey);
+
+// =================================================================================
+// ВАЛИДАЦИЯ
+// =================================================================================
+const isoDateSchema = z.string().refine(isValidIsoDate, { message: 'Ожидается дата в формате YYYY-MM-DD' });
+const regionCodeSchema = z.string().refine(code => getRegionValueByCode(code) !== null, { message: 'Неизвестный код региона' });
+const userIdSchema = z.coerce.number().int();
+const usernameSchema = z.string().trim().min(1).transform(username => username.replace('@', ''));
+
+const leadsQuerySchema = z.object({
+	query: z.string().trim().default(''),
+	region: z.union([regionCodeSchema, regionCodeSchema.array()]).optional(),
+	from: isoDateSchema.optional(),
+	to: isoDateSchema.optional(),
+	offset: z.coerce.number().int().min(0).default(0),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const regionsBodySchema = z.object({
+	regions: regionCodeSchema.array(),
+});
+
+const whitelistBodySchema = z.object({
+	username: usernameSchema,
+});
+
+const parseBodySchema = z.object({
+	userId: userIdSchema,
+	region: regionCodeSchema,
+});
+
+/**
+ * Проверяет данные запроса схемой; при ошибке отвечает 400 и возвращает null.
+ */
+function validate<T extends z.ZodTypeAny>(schema: T, data: unknown, res: Response): z.infer<T> | null {
+	const parsed = schema.safeParse(data);
+	if (!parsed.success) {
+		res.status(400).json({ error: 'Validation failed', details: parsed.error.flatten() });
+		return null;
+	}
+	return parsed.data;
+}
+
+// Ошибки асинхронных обработчиков логируются и превращаются в 500
+function handle(handler: (req: Request, res: Response) => Promise<void>) {
+	return (req: Request, res: Response) => {
+		handler(req, res).catch((error) => {
+			logger.error(`[API] Ошибка обработки ${req.method} ${req.originalUrl}:`, error);
+			if (!res.headersSent) {
+				res.status(500).json({ error: 'Internal server error' });
+			}
+		});
+	};
+}
+
+function toLeadResponse(lead: Lead) {
+	return {
+		id: lead.id,
+		conclusionNumber: lead.conclusionNumber,
+		conclusionDate: lead.conclusionDate,
+		subject: lead.subject,
+		region: lead.region,
+		result: lead.result,
+		developer: lead.developer,
+		preparer: lead.preparer,
+		object: lead.object,
+		firstSeenAt: lead.firstSeenAt,
+	};
+}
+
+// =================================================================================
+// ЛИДЫ
+// =================================================================================
+
+// GET /api/v1/leads?query=ПИК&region=77&from=2026-09-01&to=2026-09-30&offset=0&limit=50
+router.get('/leads', handle(async (req, res) => {
+	const query = validate(leadsQuerySchema, req.query, res);
+	if (!query) return;
+
+	const regionCodes = query.region === undefined ? [] : ([] as string[]).concat(query.region);
+	const { total, leads } = await searchLeads({
+		query: query.query,
+		regions: regionCodes.map(code => getRegionValueByCode(code)!),
+		dateFrom: query.from || null,
+		dateTo: query.to || null,
+	}, query.offset, query.limit);
+
+	res.json({ total, offset: query.offset, limit: query.limit, leads: leads.map(toLeadResponse) });
+}));
+
+// =================================================================================
+// ПОДПИСКИ ПОЛЬЗОВАТЕЛЯ
+// =================================================================================
+
+// Для участника команды возвращаются и изменяются подписки команды, как в боте
+router.get('/users/:userId/config', handle(async (req, res) => {
+	const userId = validate(userIdSchema, req.params.userId, res);
+	if (userId === null) return;
+
+	res.json({ userId, config: await getSubscriptionConfig(userId) });
+}));
+
+// PUT /api/v1/users/:userId/config/regions { "regions": ["77", "78"] }
+router.put('/users/:userId/config/regions', handle(async (req, res) => {
+	const userId = validate(userIdSchema, req.params.userId, res);
+	const body = validate(regionsBodySchema, req.body, res);
+	if (userId === null || !body) return;
+
+	const userConfig = await getSubscriptionConfig(userId);
+	userConfig.regions = Array.from(new Set(body.regions)).map(code => getRegionValueByCode(code)!);
+	// Как и в боте, правила фильтров снятых с подписки регионов удаляются
+	removeFiltersOfUnsubscribedRegions(userConfig);
+	await saveSubscriptionConfig(userId, userConfig);
+
+	logger.info(`[API] Регионы пользователя ${userId} изменены: ${body.regions.join(', ')}`);
+	res.json({ userId, config: userConfig });
+}));
+
+// =================================================================================
+// БЕЛЫЙ СПИСОК
+// =================================================================================
+router.get('/users', handle(async (req, res) => {
+	const users = await User.findAll({ order: [['id', 'ASC']] });
+	res.json({
+		users: users.map(user => ({
+			username: user.username,
+			userId: user.userId === null ? null : Number(user.userId),
+			status: user.userId === null ? 'pending' : user.status,
+			blockedAt: user.blockedAt,
+		})),
+	});
+}));
+
+router.post('/users', handle(async (req, res) => {
+	const body = validate(whitelistBodySchema, req.body, res);
+	if (!body) return;
+
+	const { user, created } = await addUserToWhitelist(body.username);
+	if (created) {
+		logger.info(`[API] Пользователь @${body.username} добавлен в белый список`);
+	}
+	res.status(created ? 201 : 200).json({ username: user.username, userId: user.userId === null ? null : Number(user.userId), created });
+}));
+
+router.delete('/users/:username', handle(async (req, res) => {
+	const username = validate(usernameSchema, req.params.username, res);
+	if (!username) return;
+
+	const { deletedCount } = await removeUsersFromWhitelist([username]);
+	if (deletedCount === 0) {
+		res.status(404).json({ error: 'User not found' });
+		return;
+	}
+	logger.info(`[API] Пользователь @${username} удален из белого списка`);
+	res.status(204).end();
+}));
+
+// =================================================================================
+// ЗАПУСК ПАРСИНГА
+// =================================================================================
+
+// Немедленный поиск по региону для пользователя; выполняется в фоне, результат приходит в Telegram
+router.post('/parse', handle(async (req, res) => {
+	const body = validate(parseBodySchema, req.body, res);
+	if (!body) return;
+
+	const region = getRegionValueByCode(body.region)!;
+	triggerImmediateParse(region, body.userId).catch((error) => {
+		logger.error(`[API] Ошибка немедленного парсинга "${region}" для ${body.userId}:`, error);
+	});
+	res.status(202).json({ status: 'accepted', userId: body.userId, region });
+}));
+
+export { router as apiV1Router };
@@ -1,11 +1,50 @@
-import express from 'express';
+import express, { NextFunction, Request, Response } from 'express';
+import { apiV1Router } from './api/v1';
 import { sequelize } from './database';
-import { checkBotHealth } from './bot';
+import { bot, checkBotHealth, TELEGRAM_WEBHOOK_PATH } from './bot';
+import { config } from './config';
+import { getRegionValueByCode } from './constants/regions';
 import { logger } from './logger';
+import { getRunningTaskInfo, runRegionHistoryBackfill, validateHistoryRange } from './scheduler';
+import { getFailingRegions, getRecentRuns } from './services/schedulerRunService';
+import { safeEqual } from './utils/secrets';
 
 const app = express();
 app.use(express.json());
 
+// Проверка токена для административных маршрутов
+function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+	if (!config.ADMIN_API_TOKEN) {
+		res.status(503).json({ error: 'Admin API disabled' });
+		return;
+	}
+	if (!safeEqual(req.headers.authorization || '', `Bearer ${config.ADMIN_API_TOKEN}`)) {
+		res.status(401).json({ error: 'Unauthorized' });
+		return;
+	}
+	next();
+}
+
+// Обновления Telegram в режиме webhook; подлинность подтверждается секретом из setWebHook
+if (config.BOT_MODE === 'webhook') {
+	app.post(TELEGRAM_WEBHOOK_PATH, (req, res) => {
+		const secretToken = req.header('x-telegram-bot-api-secret-token') || '';
+		if (!safeEqual(secretToken, config.BOT_WEBHOOK_SECRET!)) {
+			logger.warn(`[BOT] Отклонен запрос к webhook с неверным секретом от ${req.ip}`);
+			res.sendStatus(401);
+			return;
+		}
+		if (!req.body || typeof req.body.update_id !== 'number') {
+			res.sendStatus(400);
+			return;
+		}
+		
+		// Обработка идет асинхронно в обработчиках бота; Telegram нужен только быстрый ответ 200
+		bot.processUpdate(req.body);
+		res.sendStatus(200);
+	});
+}
+
 app.get('/', (req, res) => {
 	res.send('Сервер работает');
 });
@@ -57,4 +96,52 @@ app.get('/health', async (req, res) => {
 	}
 });
 
+// Историческая догрузка региона за период для всех подписчиков.
+// Выполняется в фоне, прогресс пишется в лог.
+app.post('/admin/history', requireAdminToken, (req, res) => {
+	const { region: regionCode, from, to } = req.body || {};
+	const region = typeof regionCode === 'string' ? getRegionValueByCode(regionCode) : null;
+	if (!region) {
+		res.status(400).json({ error: 'Unknown region code' });
+		return;
+	}
+	
+	const rangeError = validateHistoryRange(String(from), String(to));
+	if (rangeError) {
+		res.status(400).json({ error: rangeError });
+		return;
+	}
+	
+	runRegionHistoryBackfill(region, from, to, (day, dayIndex, totalDays, dayResult) => {
+		logger.info(`[HISTORY] "${region}" ${day} (${dayIndex}/${totalDays}): найдено=${dayResult.totalRecords}, обработано=${dayResult.processedRecords}`);
+	}).catch((error) => {
+		logger.error(`[HISTORY] Ошибка догрузки региона "${region}":`, error);
+	});
+	
+	res.status(202).json({ status: 'accepted', region, from, to });
+});
+
+// История запусков планировщика и регионы с ошибками
+app.get('/api/runs', requireAdminToken, async (req, res) => {
+	try {
+		const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+		const runs = await getRecentRuns(limit);
+		const runningTask = await getRunningTaskInfo();
+		
+		res.json({
+			running: runningTask !== null,
+			runningSince: runningTask ? runningTask.acquiredAt.toISOString() : null,
+			runningOwner: runningTask ? runningTask.ownerId : null,
+			failingRegions: getFailingRegions(runs),
+			runs,
+		});
+	} catch (error) {
+		logger.error('[API] Ошибка получения истории запусков:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// REST API для внутренних интеграций (авторизация по ключам из API_KEYS)
+app.use('/api/v1', apiV1Router);
+
 export { app };
\ No newline at end of file
@@ -1,17 +1,43 @@
+import axios from 'axios';
 import TelegramBot from 'node-telegram-bot-api';
 import { Op } from 'sequelize'; // НОВОЕ: Нужно для запросов с `IN`
 import { config } from './config';
-import { REGIONS } from './constants/regions';
+import { getRegionValueByCode, REGIONS } from './constants/regions';
 import { Configuration } from './database/models/Configuration';
+import { Lead } from './database/models/Lead';
+import { LeadStatusValue } from './database/models/LeadStatus';
 import { User } from './database/models/User';
 import { logger } from './logger';
-import { triggerImmediateParse } from './scheduler';
-import { IUserConfig } from './types/config.types';
+import { countStaleProcessedLeads, getRunningTaskInfo, regenerateProcessedLeads, triggerHistoryParse, triggerImmediateParse, validateHistoryRange } from './scheduler';
+import { getAiUsageReport, IAiUsageAggregate } from './services/aiUsageService';
+import { formatDeliveryTarget, getDeliveryTarget, listDeliveryTargets, markDeliveryTargetUnreachable, registerDeliveryTarget, removeDeliveryTarget, saveDeliveryTargetConfig } from './services/deliveryTargetService';
+import { buildLeadExport, parseExportQuery } from './services/exportService';
+import { formatFilterRule, formatObjectTypes, parseFilterRule, parseObjectTypes, removeFiltersOfUnsubscribedRegions } from './services/filterService';
+import { getLeadMessage, ILeadSearchCriteria, parseSearchQuery, searchLeads } from './services/leadService';
+import { applyStatusToMessageText, buildLeadStatusKeyboard, getLeadPipeline, getLeadStatus, LEAD_STATUS_ICONS, LEAD_STATUS_LABELS, parseLeadStatusCallback, setLeadStatus } from './services/leadStatusService';
+import { OBJECT_TYPE_LABELS } from './services/leadTemplate';
+import { setAdminNotifier } from './services/notificationService';
+import { addMember, applyAssigneeToMessageText, AssignmentCallback, assignLead, buildAssigneeKeyboard, canEditSubscriptions, createOrganization, deleteOrganization, formatMemberName, getLeadAssignment, getMembership, getSubscriberIds, listMembers, listOrganizations, parseAssignmentCallback, removeMember, withAssignmentButton } from './services/organizationService';
+import { getActivePrompt, getPromptVersion, IPromptVersion, listPromptVersions, MAX_PROMPT_LENGTH, savePromptVersion, validatePromptContent } from './services/promptService';
+import { getFailingRegions, getRecentRuns } from './services/schedulerRunService';
+import { DEFAULT_SETTINGS, getSettings, isSettingKey, resetSetting, SETTING_DESCRIPTIONS, SettingKey, updateSetting } from './services/settingsService';
+import { addUserToWhitelist, markChatUnreachable, reactivateUser, removeUsersFromWhitelist } from './services/userService';
+import { getSubscriptionConfig, parseUserConfig, saveSubscriptionConfig } from './services/userConfigService';
+import { createWebhook, deleteWebhook, enqueueTestWebhook, getOwnedWebhook, getRecentDeliveries, listWebhooks, SIGNATURE_HEADER, TIMESTAMP_HEADER, validateWebhookUrl } from './services/webhookService';
+import { ILeadFilterRule, IUserConfig } from './types/config.types';
+import { isChatUnreachableError } from './utils/telegram';
 
 if (!config.BOT_TOKEN) {
 	throw new Error('BOT_TOKEN не задан в .env');
 }
 
+// Сессии поиска /search: критерии и текущая страница для пагинации кнопками
+interface ISearchSession {
+	criteria: ILeadSearchCriteria;
+	page: number;
+}
+const searchSessions = new Map<number, ISearchSession>();
+
 // ИЗМЕНЕНО: Обновляем состояния для нового текстового флоу удаления
 const userAction = new Map<
 	number,
@@ -19,18 +45,25 @@ const userAction = new Map<
 	| 'awaiting_username'
 	| 'awaiting_region_deletion' // НОВОЕ
 	| 'awaiting_user_deletion' // НОВОЕ
+	| 'awaiting_filter_input'
+	| 'awaiting_prompt_input'
 >();
 
 // =============================================================================
 // ИНИЦИАЛИЗАЦИЯ БОТА И ОБРАБОТКА ОШИБОК (без изменений)
 // =============================================================================
+const ALLOWED_UPDATES = ['message', 'callback_query', 'channel_post', 'my_chat_member'];
+
+// Маршрут Express, на который Telegram отправляет обновления в режиме webhook
+export const TELEGRAM_WEBHOOK_PATH = '/telegram/webhook';
+
 const botOptions: TelegramBot.ConstructorOptions = {
 	polling: {
 		interval: 1000,
 		autoStart: false,
 		params: {
 			timeout: 10,
-			allowed_updates: ['message', 'callback_query'],
+			allowed_updates: ALLOWED_UPDATES,
 		},
 	},
 	request: {
@@ -46,15 +79,53 @@ const botOptions: TelegramBot.ConstructorOptions = {
 export const bot = new TelegramBot(config.BOT_TOKEN, botOptions);
 
 setTimeout(async () => {
-    try {
-        logger.info('[BOT] Запуск polling...');
-        await bot.startPolling();
-        logger.info('[BOT] Polling запущен успешно');
-    } catch (error) {
-        logger.error('[BOT] Ошибка запуска polling:', error);
-    }
+	if (config.BOT_MODE === 'webhook') {
+		await registerWebhook();
+		return;
+	}
+	try {
+		// Пока у бота зарегистрирован webhook (например, после работы в режиме webhook), getUpdates возвращает 409
+		await bot.deleteWebHook();
+		logger.info('[BOT] Запуск polling...');
+		await bot.startPolling();
+		logger.info('[BOT] Polling запущен успешно');
+	} catch (error) {
+		logger.error('[BOT] Ошибка запуска polling:', error);
+	}
 }, 1000);
 
+// В режиме webhook обновления приходят на маршрут Express, polling и его перезапуски не используются
+async function registerWebhook(): Promise<void> {
+	const webhookUrl = `${config.BOT_WEBHOOK_URL!.replace(/\/+$/, '')}${TELEGRAM_WEBHOOK_PATH}`;
+	try {
+		await setTelegramWebhook({ url: webhookUrl, secret_token: config.BOT_WEBHOOK_SECRET, allowed_updates: ALLOWED_UPDATES });
+		logger.info(`[BOT] Webhook зарегистрирован: ${webhookUrl}`);
+	} catch (error) {
+		logger.error('[BOT] Ошибка регистрации webhook:', error);
+	}
+}
+
+/**
+ * Регистрирует webhook запросом с JSON-телом. bot.setWebHook передает параметры в query string,
+ * где массив allowed_updates не доходит до Bot API в нужном виде.
+ */
+async function setTelegramWebhook(options: TelegramBot.SetWebHookOptions): Promise<void> {
+	let response;
+	try {
+		response = await axios.post<{ ok: boolean; description?: string }>(
+			`https://api.telegram.org/bot${config.BOT_TOKEN}/setWebhook`,
+			options,
+			{ timeout: 30000, validateStatus: () => true },
+		);
+	} catch (error: any) {
+		// Ошибка axios содержит URL запроса с токеном бота, поэтому наружу уходит только текст
+		throw new Error(`Bot API недоступен: ${error.message}`);
+	}
+	if (!response.data?.ok) {
+		throw new Error(`Bot API отклонил setWebhook: ${response.data?.description || `HTTP ${response.status}`}`);
+	}
+}
+
 let consecutiveErrors = 0;
 const MAX_CONSECUTIVE_ERRORS = 5;
 const RESTART_DELAY = 30000;
@@ -155,9 +226,11 @@ async function gracefulShutdown(): Promise<void> {
 	try {
 		logger.info('[BOT] Graceful shutdown начат...');
 		
-		// Останавливаем polling
-		await bot.stopPolling();
-		logger.info('[BOT] Polling остановлен');
+		// Останавливаем polling; webhook остается зарегистрированным, обновления дождутся перезапуска
+		if (config.BOT_MODE === 'polling') {
+			await bot.stopPolling();
+			logger.info('[BOT] Polling остановлен');
+		}
 		
 		// Даем время завершить текущие операции
 		await new Promise(resolve => setTimeout(resolve, 2000));
@@ -187,9 +260,11 @@ export async function safeSendMessage(
 			const shortText = text.substring(0, 80).replace(/\n/g, ' ') + (text.length > 80 ? '...' : '');
 			logger.warn(`[BOT] Попытка ${attempt}/${maxRetries} отправки сообщения пользователю ${chatId} не удалась. Сообщение: "${shortText}". Ошибка: ${error.message}`);
 			
-			if (attempt === maxRetries || error.response?.statusCode === 403) {
-				if (error.response?.statusCode === 403) {
-					logger.info(`[BOT] Пользователь ${chatId} заблокировал бота`);
+			const isUnreachable = isChatUnreachableError(error);
+			if (attempt === maxRetries || isUnreachable) {
+				if (isUnreachable) {
+					logger.info(`[BOT] Пользователь ${chatId} заблокировал бота или чат не найден`);
+					await markChatUnreachable(chatId, error.response?.body?.description || error.message);
 				} else {
 					logger.error(`[BOT] Не удалось отправить сообщение пользователю ${chatId} после ${maxRetries} попыток`);
 				}
@@ -201,6 +276,12 @@ export async function safeSendMessage(
 	return false;
 }
 
+setAdminNotifier(async (text) => {
+	for (const adminId of config.ADMIN_TELEGRAM_IDS) {
+		await safeSendMessage(adminId, text);
+	}
+});
+
 // =============================================================================
 // КЛАВИАТУРЫ И ПРОВЕРКА ДОСТУПА
 // =============================================================================
@@ -210,7 +291,7 @@ const ADMIN_KEYBOARD = {
 	reply_markup: {
 		keyboard: [
 			[{ text: '➕ Добавить регион' }, { text: '➖ Удалить регион' }],
-			[{ text: 'Мои регионы' }],
+			[{ text: 'Мои регионы' }, { text: '🔎 Фильтры' }],
 			[{ text: '➕ Добавить пользователя' }, { text: '➖ Удалить пользователя' }],
 		],
 		resize_keyboard: true,
@@ -221,7 +302,7 @@ const USER_KEYBOARD = {
 	reply_markup: {
 		keyboard: [
 			[{ text: '➕ Добавить регион' }, { text: '➖ Удалить регион' }],
-			[{ text: 'Мои регионы' }],
+			[{ text: 'Мои регионы' }, { text: '🔎 Фильтры' }],
 		],
 		resize_keyboard: true,
 	},
@@ -233,7 +314,7 @@ const GUEST_KEYBOARD = {
 
 // ИЗМЕНЕНО: Обновляем Set кнопок
 const COMMAND_BUTTONS = new Set([
-	'➕ Добавить регион', '➖ Удалить регион', 'Мои регионы',
+	'➕ Добавить регион', '➖ Удалить регион', 'Мои регионы', '🔎 Фильтры',
 	'➕ Добавить пользователя', '➖ Удалить пользователя',
 ]);
 
@@ -261,6 +342,12 @@ bot.on('message', async (msg) => {
 	const username = msg.from?.username;
 	const text = (msg.text || '').trim();
 	
+	// --- 0) Группы: только настройка рассылки администратором, остальные сообщения игнорируются ---
+	if (msg.chat.type !== 'private') {
+		await handleGroupMessage(msg, text);
+		return;
+	}
+	
 	// --- 1) Обработка /start (логика активации) ---
 	if (text === '/start') {
 		const userInDb = username ? await User.findOne({ where: { username } }) : null;
@@ -271,7 +358,9 @@ bot.on('message', async (msg) => {
 			await safeSendMessage(chatId, welcomeMsg, isAdmin(chatId) ? ADMIN_KEYBOARD : USER_KEYBOARD);
 		} else {
 			const access = await hasAccess(chatId, username);
-			if (access === 'admin' || access === 'activated') {
+			if (await reactivateUser(chatId)) {
+				await safeSendMessage(chatId, 'С возвращением! Ваши подписки возобновлены.', isAdmin(chatId) ? ADMIN_KEYBOARD : USER_KEYBOARD);
+			} else if (access === 'admin' || access === 'activated') {
 				await safeSendMessage(chatId, 'Вы уже активированы, выбирайте команду.', isAdmin(chatId) ? ADMIN_KEYBOARD : USER_KEYBOARD);
 			} else {
 				await safeSendMessage(chatId, 'У вас нет доступа. При получении доступа повторно нажмите /start', GUEST_KEYBOARD);
@@ -311,6 +400,12 @@ bot.on('message', async (msg) => {
 					case 'awaiting_user_deletion':
 						await handleDeleteUsersByInput(chatId, text);
 						break;
+					case 'awaiting_filter_input':
+						await handleFilterInput(chatId, text);
+						break;
+					case 'awaiting_prompt_input':
+						await handlePromptInput(chatId, text);
+						break;
 				}
 				return;
 			}
@@ -318,20 +413,76 @@ bot.on('message', async (msg) => {
 		
 		if (!text) return;
 		
-		// --- 4) Обработка команд с кнопок ---
+		// --- 4) Текстовые команды с аргументами ---
+		if (text.startsWith('/history')) {
+			await handleHistoryCommand(chatId, text);
+			return;
+		}
+		if (text.startsWith('/search')) {
+			await handleSearchCommand(chatId, text);
+			return;
+		}
+		if (text.startsWith('/export')) {
+			await handleExportCommand(chatId, text);
+			return;
+		}
+		if (text.startsWith('/target') && isAdmin(chatId)) {
+			await handlePrivateTargetCommand(chatId, text);
+			return;
+		}
+		if (text.startsWith('/webhook')) {
+			await handleWebhookCommand(chatId, text);
+			return;
+		}
+		if (text.startsWith('/team')) {
+			await handleTeamCommand(chatId, text);
+			return;
+		}
+		if (text === '/pipeline') {
+			await showLeadPipeline(chatId);
+			return;
+		}
+		if (text === '/status' && isAdmin(chatId)) {
+			await showSchedulerStatus(chatId);
+			return;
+		}
+		if (text.startsWith('/settings') && isAdmin(chatId)) {
+			await handleSettingsCommand(chatId, text);
+			return;
+		}
+		if (text.startsWith('/ai_usage') && isAdmin(chatId)) {
+			await showAiUsage(chatId, text);
+			return;
+		}
+		if (text.startsWith('/prompt') && isAdmin(chatId)) {
+			await handlePromptCommand(chatId, text);
+			return;
+		}
+		if (text.startsWith('/regenerate') && isAdmin(chatId)) {
+			await handleRegenerateCommand(chatId, text);
+			return;
+		}
+		
+		// --- 5) Обработка команд с кнопок ---
 		switch (text) {
 			// Общие команды
 			case '➕ Добавить регион':
+				if (!(await ensureCanEditSubscriptions(chatId))) break;
 				userAction.set(chatId, 'add_region');
 				await safeSendMessage(chatId, 'Введите код или несколько кодов регионов через запятую (например, 77, 78).');
 				break;
 			case '➖ Удалить регион':
+				if (!(await ensureCanEditSubscriptions(chatId))) break;
 				// ИЗМЕНЕНО: Запускаем текстовый флоу удаления
 				await promptForRegionDeletion(chatId);
 				break;
 			case 'Мои регионы':
 				await showMyRegions(chatId);
 				break;
+			case '🔎 Фильтры':
+				if (!(await ensureCanEditSubscriptions(chatId))) break;
+				await promptForFilterInput(chatId);
+				break;
 			
 			// Команды только для администратора
 			case '➕ Добавить пользователя':
@@ -357,31 +508,27 @@ bot.on('message', async (msg) => {
 // УДАЛЕНО: ОБРАБОТЧИК CALLBACK-ЗАПРОСОВ БОЛЬШЕ НЕ НУЖЕН ДЛЯ УДАЛЕНИЯ
 // =============================================================================
 bot.on('callback_query', async (callbackQuery) => {
-	// Здесь может быть другая логика, не связанная с удалением, поэтому обработчик оставляем пустым.
-	// Если других inline-кнопок нет, его можно полностью удалить.
-	await bot.answerCallbackQuery(callbackQuery.id);
-});
-
-// =============================================================================
-// ХЕЛПЕРЫ ДЛЯ РАБОТЫ С КОНФИГУРАЦИЕЙ (без изменений)
-// =============================================================================
-async function getUserConfig(chatId: number): Promise<IUserConfig> {
-	const config = await Configuration.findOne({ where: { userId: chatId } });
-	if (config?.configData) {
-		try {
-			const parsed = JSON.parse(config.configData);
-			if (Array.isArray(parsed.regions)) return parsed;
-		} catch (e) { /* ignore */ }
+	try {
+		const leadStatusAction = parseLeadStatusCallback(callbackQuery.data);
+		if (leadStatusAction) {
+			await handleLeadStatusCallback(callbackQuery, leadStatusAction.status, leadStatusAction.conclusionNumber);
+			return;
+		}
+		const assignmentAction = parseAssignmentCallback(callbackQuery.data);
+		if (assignmentAction) {
+			await handleAssignmentCallback(callbackQuery, assignmentAction);
+			return;
+		}
+		if (callbackQuery.data?.startsWith(`${SEARCH_CALLBACK_PREFIX}:`)) {
+			await handleSearchCallback(callbackQuery);
+			return;
+		}
+		await bot.answerCallbackQuery(callbackQuery.id);
+	} catch (error) {
+		logger.error(`Ошибка при обработке callback_query от пользователя ${callbackQuery.from.id}:`, error);
+		await bot.answerCallbackQuery(callbackQuery.id, { text: 'Не удалось выполнить действие, попробуйте позже.' }).catch(() => undefined);
 	}
-	return { regions: [] };
-}
-
-async function saveUserConfig(chatId: number, userConfig: IUserConfig) {
-	await Configuration.upsert({
-		userId: chatId,
-		configData: JSON.stringify(userConfig),
-	});
-}
+});
 
 // =============================================================================
 // ЛОГИКА ДОБАВЛЕНИЯ
@@ -393,7 +540,7 @@ async function handleAddRegion(chatId: number, text: string) {
 		return;
 	}
 	
-	const config = await getUserConfig(chatId);
+	const config = await getSubscriptionConfig(chatId);
 	let addedRegions: string[] = [];
 	let failedRegions: string[] = [];
 	
@@ -411,7 +558,7 @@ async function handleAddRegion(chatId: number, text: string) {
 	}
 	
 	if (addedRegions.length > 0) {
-		await saveUserConfig(chatId, config);
+		await saveSubscriptionConfig(chatId, config);
 		let response = `✅ Регионы успешно добавлены:\n- ${addedRegions.join('\n- ')}`;
 		if (failedRegions.length > 0) {
 			response += `\n\n❌ Не удалось найти регионы с кодами: ${failedRegions.join(', ')}`;
@@ -419,10 +566,14 @@ async function handleAddRegion(chatId: number, text: string) {
 		await safeSendMessage(chatId, response, isAdmin(chatId) ? ADMIN_KEYBOARD : USER_KEYBOARD);
 		
 		await safeSendMessage(chatId, '🚀 Запускаю первоначальный поиск по новым регионам. Это может занять минуту...');
+		// Регион команды сразу ищется для всех ее участников
+		const subscriberIds = await getSubscriberIds(chatId);
 		for (const regionName of addedRegions) {
 			const code = Object.keys(REGIONS).find(key => REGIONS[key] === regionName);
 			if (code) {
-				await triggerImmediateParse(`${regionName} - ${code}`, chatId);
+				for (const subscriberId of subscriberIds) {
+					await triggerImmediateParse(`${regionName} - ${code}`, subscriberId);
+				}
 			}
 		}
 	} else {
@@ -440,10 +591,7 @@ async function handleAddUsername(msg: TelegramBot.Message) {
 		return;
 	}
 	
-	const [user, created] = await User.findOrCreate({
-		where: { username: username },
-		defaults: { username: username, userId: null },
-	});
+	const { created } = await addUserToWhitelist(username);
 	
 	if (created) {
 		logger.info(`[ADMIN] Администратор ${adminId} добавил нового пользователя @${username}`);
@@ -458,7 +606,7 @@ async function handleAddUsername(msg: TelegramBot.Message) {
 // =============================================================================
 
 async function promptForRegionDeletion(chatId: number) {
-	const config = await getUserConfig(chatId);
+	const config = await getSubscriptionConfig(chatId);
 	if (config.regions.length === 0) {
 		await safeSendMessage(chatId, 'Нечего удалять. У вас нет добавленных регионов.');
 		return;
@@ -480,7 +628,7 @@ async function handleDeleteRegionsByInput(chatId: number, text: string) {
 		return;
 	}
 	
-	const config = await getUserConfig(chatId);
+	const config = await getSubscriptionConfig(chatId);
 	const initialCount = config.regions.length;
 	const deletedRegions: string[] = [];
 	
@@ -494,7 +642,9 @@ async function handleDeleteRegionsByInput(chatId: number, text: string) {
 	});
 	
 	if (deletedRegions.length > 0) {
-		await saveUserConfig(chatId, config);
+		// Правила фильтров удаленных подписок больше не нужны
+		removeFiltersOfUnsubscribedRegions(config);
+		await saveSubscriptionConfig(chatId, config);
 		await safeSendMessage(chatId, `✅ Регионы удалены:\n- ${deletedRegions.join('\n- ')}`);
 	} else {
 		await safeSendMessage(chatId, 'Ни один из указанных регионов не был найден в вашем списке.');
@@ -511,7 +661,10 @@ async function promptForUserDeletion(adminId: number) {
 	}
 	
 	const userList = users.map(user => {
-		const status = user.userId ? `(ID: ${user.userId})` : '(ожидает активации)';
+		let status = user.userId ? `(ID: ${user.userId})` : '(ожидает активации)';
+		if (user.status === 'blocked') {
+			status += ' (заблокировал бота)';
+		}
 		return `- @${user.username} ${status}`;
 	}).join('\n');
 	
@@ -526,22 +679,15 @@ async function handleDeleteUsersByInput(adminId: number, text: string) {
 		return;
 	}
 	
-	// Находим пользователей, чтобы уведомить их об удалении
-	const usersToNotify = await User.findAll({
-		where: { username: { [Op.in]: usernamesToDelete }, userId: { [Op.not]: null } },
-	});
-	
-	const deletedCount = await User.destroy({
-		where: { username: { [Op.in]: usernamesToDelete } },
-	});
+	const { deletedCount, removedChatIds } = await removeUsersFromWhitelist(usernamesToDelete);
 	
 	if (deletedCount > 0) {
 		logger.info(`[ADMIN] Администратор ${adminId} удалил ${deletedCount} пользователей.`);
 		await safeSendMessage(adminId, `✅ Удалено ${deletedCount} пользователей.`);
 		
 		// Уведомляем тех, кого смогли
-		for (const user of usersToNotify) {
-			await safeSendMessage(user.userId!, 'Ваш доступ к боту был отозван администратором.');
+		for (const removedChatId of removedChatIds) {
+			await safeSendMessage(removedChatId, 'Ваш доступ к боту был отозван администратором.');
 		}
 	} else {
 		await safeSendMessage(adminId, 'Ни один из указанных пользователей не найден в базе данных.');
@@ -553,10 +699,1145 @@ async function handleDeleteUsersByInput(adminId: number, text: string) {
 // =============================================================================
 
 async function showMyRegions(chatId: number) {
-	const currentConfig = await getUserConfig(chatId);
-	if (currentConfig.regions.length === 0) {
-		await safeSendMessage(chatId, 'У вас пока нет добавленных регионов.');
-	} else {
-		await safeSendMessage(chatId, `Ваши регионы:\n- ${currentConfig.regions.join('\n- ')}`);
+	const currentConfig = await getSubscriptionConfig(chatId);
+	const membership = await getMembership(chatId);
+	let response = currentConfig.regions.length === 0
+		? 'У вас пока нет добавленных регионов.'
+		: `Ваши регионы:\n- ${currentConfig.regions.join('\n- ')}`;
+	if (membership) {
+		response = `👥 Подписки команды «${membership.organization.name}»\n\n${response}`;
+	}
+	
+	if (currentConfig.filters && currentConfig.filters.length > 0) {
+		response += `\n\nФильтры:\n${formatFilterList(currentConfig.filters)}`;
+	}
+	const classificationSettings = formatClassificationSettings(currentConfig);
+	if (classificationSettings) {
+		response += `\n\n${classificationSettings}`;
+	}
+	await safeSendMessage(chatId, response);
+}
+
+// Историческая догрузка: /history 77 2026-10-01 2026-10-15
+async function handleHistoryCommand(chatId: number, text: string) {
+	const [, regionCode, dateFrom, dateTo] = text.split(/\s+/);
+	if (!regionCode || !dateFrom) {
+		await safeSendMessage(chatId, 'Формат команды: /history <код региона> <дата начала> [дата окончания]\nНапример: /history 77 2026-10-01 2026-10-15');
+		return;
+	}
+	
+	const region = getRegionValueByCode(regionCode);
+	if (!region) {
+		await safeSendMessage(chatId, `Регион с кодом ${regionCode} не найден.`);
+		return;
+	}
+	
+	const rangeEnd = dateTo || dateFrom;
+	const rangeError = validateHistoryRange(dateFrom, rangeEnd);
+	if (rangeError) {
+		await safeSendMessage(chatId, `❌ ${rangeError}`);
+		return;
+	}
+	
+	await safeSendMessage(chatId, `🚀 Запускаю догрузку по региону "${REGIONS[regionCode]}" за ${dateFrom} — ${rangeEnd}. Прогресс буду присылать по дням.`);
+	await triggerHistoryParse(region, chatId, dateFrom, rangeEnd);
+}
+
+// =============================================================================
+// СТАТУСЫ ЛИДОВ (inline-кнопки под сообщениями и /pipeline)
+// =============================================================================
+async function handleLeadStatusCallback(callbackQuery: TelegramBot.CallbackQuery, status: LeadStatusValue, conclusionNumber: string) {
+	const userId = callbackQuery.from.id;
+	const access = await hasAccess(userId, callbackQuery.from.username);
+	if (access !== 'admin' && access !== 'activated') {
+		await bot.answerCallbackQuery(callbackQuery.id, { text: 'Нет доступа. Нажмите /start.' });
+		return;
+	}
+	
+	await setLeadStatus(userId, conclusionNumber, status);
+	await bot.answerCallbackQuery(callbackQuery.id, { text: `Статус: ${LEAD_STATUS_LABELS[status]}` });
+	
+	const message = callbackQuery.message;
+	if (!message?.text) return;
+	try {
+		await bot.editMessageText(applyStatusToMessageText(message.text, status), {
+			chat_id: message.chat.id,
+			message_id: message.message_id,
+			reply_markup: await buildLeadKeyboard(userId, conclusionNumber, status) || undefined,
+		});
+	} catch (error: any) {
+		// Повторное нажатие той же кнопки не меняет сообщение
+		if (!String(error.response?.body?.description || '').includes('message is not modified')) {
+			logger.warn(`[LEADS] Не удалось обновить сообщение о лиде "${conclusionNumber}" у пользователя ${userId}: ${error.message}`);
+		}
+	}
+}
+
+// Клавиатура лида: статусы и, для участников команды, кнопка назначения ответственного
+async function buildLeadKeyboard(userId: number, conclusionNumber: string, status: LeadStatusValue | null): Promise<TelegramBot.InlineKeyboardMarkup | null> {
+	const keyboard = buildLeadStatusKeyboard(conclusionNumber, status);
+	return (await getMembership(userId)) ? withAssignmentButton(keyboard, conclusionNumber) : keyboard;
+}
+
+async function showLeadPipeline(chatId: number) {
+	const groups = await getLeadPipeline(chatId);
+	if (groups.length === 0) {
+		await safeSendMessage(chatId, 'У вас пока нет лидов со статусом. Отмечайте лиды кнопками под сообщениями.');
+		return;
+	}
+	
+	const sections = groups.map(group => {
+		const leads = group.leads.map(lead =>
+			`- ${lead.conclusionNumber}${lead.description ? ` — ${lead.description}` : ''} (${formatMoscowTime(lead.updatedAt)})`,
+		);
+		const more = group.total > group.leads.length ? `\n…и еще ${group.total - group.leads.length}` : '';
+		return `${LEAD_STATUS_ICONS[group.status]} ${LEAD_STATUS_LABELS[group.status]} (${group.total}):\n${leads.join('\n')}${more}`;
+	});
+	await safeSendMessage(chatId, `📊 Ваши лиды:\n\n${sections.join('\n\n')}`);
+}
+
+// =============================================================================
+// ПОИСК ПО СОХРАНЕННЫМ ЛИДАМ
+// =============================================================================
+const SEARCH_CALLBACK_PREFIX = 'sr';
+const SEARCH_PAGE_SIZE = 5;
+const SEARCH_SNIPPET_LENGTH = 100;
+
+const SEARCH_HELP = `Формат команды: /search <запрос> [регион:код] [с:ГГГГ-ММ-ДД] [по:ГГГГ-ММ-ДД]
+Ищет по застройщику, проектировщику, объекту и номеру заключения.
+Например: /search ПИК регион:77 с:2026-09-01`;
+
+function truncate(text: string | null, maxLength: number): string {
+	const value = (text || '—').replace(/\s+/g, ' ').trim();
+	return value.length > maxLength ? `${value.slice(0, maxLength)}…` : value;
+}
+
+// /search ПИК регион:77 с:2026-09-01 по:2026-09-30
+async function handleSearchCommand(chatId: number, text: string) {
+	const input = text.replace(/^\/search(@\S+)?/, '').trim();
+	if (!input) {
+		await safeSendMessage(chatId, SEARCH_HELP);
+		return;
+	}
+	
+	const parsed = parseSearchQuery(input);
+	if ('error' in parsed) {
+		await safeSendMessage(chatId, `❌ ${parsed.error}\n\n${SEARCH_HELP}`);
+		return;
+	}
+	
+	// Без явного региона пользователь ищет по своим подпискам, администратор — по всем регионам.
+	// Пользователю доступны только регионы из его подписок
+	const { criteria } = parsed;
+	if (!isAdmin(chatId)) {
+		const subscribedRegions = (await getSubscriptionConfig(chatId)).regions;
+		if (subscribedRegions.length === 0) {
+			await safeSendMessage(chatId, 'У вас нет подписок на регионы, искать не по чему. Добавьте регион кнопкой «➕ Добавить регион».');
+			return;
+		}
+		if (criteria.regions.some(region => !subscribedRegions.includes(region))) {
+			await safeSendMessage(chatId, '❌ Искать можно только по регионам из ваших подписок.');
+			return;
+		}
+		if (criteria.regions.length === 0) {
+			criteria.regions = subscribedRegions;
+		}
+	}
+	
+	searchSessions.set(chatId, { criteria, page: 0 });
+	const view = await buildSearchPage(criteria, 0);
+	await safeSendMessage(chatId, view.text, view.replyMarkup ? { reply_markup: view.replyMarkup } : undefined);
+}
+
+async function buildSearchPage(criteria: ILeadSearchCriteria, page: number): Promise<{ text: string; replyMarkup: TelegramBot.InlineKeyboardMarkup | null }> {
+	const { total, leads } = await searchLeads(criteria, page * SEARCH_PAGE_SIZE, SEARCH_PAGE_SIZE);
+	if (total === 0) {
+		return { text: `По запросу «${criteria.query}» ничего не найдено.`, replyMarkup: null };
+	}
+	
+	const totalPages = Math.ceil(total / SEARCH_PAGE_SIZE);
+	const lines = leads.map((lead, index) => {
+		const number = page * SEARCH_PAGE_SIZE + index + 1;
+		const date = lead.conclusionDate ? lead.conclusionDate.split('-').reverse().join('.') : '—';
+		const region = lead.region ? lead.region.split(' - ')[0] : lead.subject || '—';
+		return `${number}. ${date} · ${region} · ${lead.conclusionNumber}\n`
+			+ `   Объект: ${truncate(lead.object, SEARCH_SNIPPET_LENGTH)}\n`
+			+ `   Застройщик: ${truncate(lead.developer, SEARCH_SNIPPET_LENGTH)}`;
+	});
+	
+	const openButtons = leads.map((lead, index) => ({
+		text: String(page * SEARCH_PAGE_SIZE + index + 1),
+		callback_data: `${SEARCH_CALLBACK_PREFIX}:open:${lead.id}`,
+	}));
+	const navigationButtons: TelegramBot.InlineKeyboardButton[] = [];
+	if (page > 0) {
+		navigationButtons.push({ text: '◀️ Назад', callback_data: `${SEARCH_CALLBACK_PREFIX}:page:${page - 1}` });
+	}
+	if (page < totalPages - 1) {
+		navigationButtons.push({ text: 'Вперед ▶️', callback_data: `${SEARCH_CALLBACK_PREFIX}:page:${page + 1}` });
+	}
+	
+	return {
+		text: `🔍 «${criteria.query}»: найдено ${total} (стр. ${page + 1}/${totalPages})\n\n${lines.join('\n\n')}\n\nНажмите номер, чтобы открыть лид.`,
+		replyMarkup: { inline_keyboard: [openButtons, navigationButtons].filter(row => row.length > 0) },
+	};
+}
+
+async function handleSearchCallback(callbackQuery: TelegramBot.CallbackQuery) {
+	const chatId = callbackQuery.from.id;
+	const [, action, value] = (callbackQuery.data || '').split(':');
+	const session = searchSessions.get(chatId);
+	
+	if (!session) {
+		await bot.answerCallbackQuery(callbackQuery.id, { text: 'Результаты поиска устарели, повторите /search.' });
+		return;
+	}
+	
+	if (action === 'open') {
+		const lead = await Lead.findByPk(Number(value));
+		// callback_data приходит от клиента: пользователь может открыть только лид из своих регионов, как и в /search
+		const isAllowed = lead !== null && (isAdmin(chatId) || (lead.region !== null && (await getSubscriptionConfig(chatId)).regions.includes(lead.region)));
+		if (!lead || !isAllowed) {
+			await bot.answerCallbackQuery(callbackQuery.id, { text: 'Лид не найден.' });
+			return;
+		}
+		await bot.answerCallbackQuery(callbackQuery.id);
+		const keyboard = await buildLeadKeyboard(chatId, lead.conclusionNumber, null);
+		await safeSendMessage(chatId, await getLeadMessage(lead), keyboard ? { reply_markup: keyboard } : undefined);
+		return;
+	}
+	
+	if (action === 'page' && callbackQuery.message) {
+		const page = Number(value);
+		const view = await buildSearchPage(session.criteria, page);
+		session.page = page;
+		await bot.answerCallbackQuery(callbackQuery.id);
+		await bot.editMessageText(view.text, {
+			chat_id: callbackQuery.message.chat.id,
+			message_id: callbackQuery.message.message_id,
+			reply_markup: view.replyMarkup || undefined,
+		});
+		return;
+	}
+	
+	await bot.answerCallbackQuery(callbackQuery.id);
+}
+
+// =============================================================================
+// КОМАНДЫ (общие подписки и назначение лидов)
+// =============================================================================
+const TEAM_HELP = `Команды для работы с командой:
+/team — состав вашей команды
+/team add @username [lead] — добавить участника (для руководителя)
+/team remove @username — исключить участника (для руководителя)`;
+
+const TEAM_ADMIN_HELP = `Для администратора:
+/team list — список команд
+/team create <название> @руководитель — создать команду
+/team delete <id> — удалить команду`;
+
+const TEAM_ROLE_ICONS = {
+	lead: '⭐',
+	member: '▫️',
+};
+
+async function findActivatedUser(usernameToken: string | undefined): Promise<User | null> {
+	const username = (usernameToken || '').replace('@', '');
+	if (!username) return null;
+	return User.findOne({ where: { username, userId: { [Op.not]: null } } });
+}
+
+// /team, /team add @user, /team create Отдел продаж @lead
+async function handleTeamCommand(chatId: number, text: string) {
+	const [subcommand = '', ...args] = text.replace(/^\/team(@\S+)?/, '').trim().split(/\s+/).filter(Boolean);
+	const help = isAdmin(chatId) ? `${TEAM_HELP}\n\n${TEAM_ADMIN_HELP}` : TEAM_HELP;
+	
+	switch (subcommand.toLowerCase()) {
+		case '':
+			await showTeam(chatId, help);
+			return;
+		case 'list':
+			if (isAdmin(chatId)) {
+				await showTeamList(chatId);
+				return;
+			}
+			break;
+		case 'create':
+			if (isAdmin(chatId)) {
+				await handleTeamCreate(chatId, args);
+				return;
+			}
+			break;
+		case 'delete':
+			if (isAdmin(chatId)) {
+				const deleted = await deleteOrganization(Number(args[0]));
+				await safeSendMessage(chatId, deleted ? `✅ Команда #${args[0]} удалена, участники вернулись к личным подпискам.` : `Команда #${args[0] || '?'} не найдена.`);
+				return;
+			}
+			break;
+		case 'add':
+		case 'remove':
+			await handleTeamMembership(chatId, subcommand.toLowerCase(), args);
+			return;
+	}
+	await safeSendMessage(chatId, help);
+}
+
+async function showTeam(chatId: number, help: string) {
+	const membership = await getMembership(chatId);
+	if (!membership) {
+		await safeSendMessage(chatId, `Вы не состоите в команде.\n\n${help}`);
+		return;
+	}
+	
+	const { organization } = membership;
+	const members = await listMembers(organization.id);
+	const regions = parseUserConfig(organization.configData).regions;
+	const memberLines = members.map(member => `${TEAM_ROLE_ICONS[member.role]} ${formatMemberName(member)}${member.role === 'lead' ? ' (руководитель)' : ''}`);
+	
+	await safeSendMessage(chatId, `👥 Команда «${organization.name}» (#${organization.id})\n\n`
+		+ `Участники:\n${memberLines.join('\n')}\n\n`
+		+ `Регионов в подписке: ${regions.length}\n\n${help}`);
+}
+
+async function showTeamList(chatId: number) {
+	const organizations = await listOrganizations();
+	if (organizations.length === 0) {
+		await safeSendMessage(chatId, `Команд пока нет.\n\n${TEAM_ADMIN_HELP}`);
+		return;
+	}
+	
+	const lines = organizations.map(organization =>
+		`#${organization.id} «${organization.name}» — участников: ${organization.memberCount}, регионов: ${organization.regionCount}`,
+	);
+	await safeSendMessage(chatId, `👥 Команды:\n\n${lines.join('\n')}`);
+}
+
+async function handleTeamCreate(adminId: number, args: string[]) {
+	const leadToken = args[args.length - 1];
+	const name = args.slice(0, -1).join(' ');
+	if (!name || !leadToken?.startsWith('@')) {
+		await safeSendMessage(adminId, 'Формат команды: /team create <название> @руководитель\nНапример: /team create Отдел продаж @ivanov');
+		return;
+	}
+	
+	const lead = await findActivatedUser(leadToken);
+	if (!lead) {
+		await safeSendMessage(adminId, `Пользователь ${leadToken} не найден или еще не нажал /start.`);
+		return;
+	}
+	
+	const created = await createOrganization(name, Number(lead.userId), adminId);
+	if ('error' in created) {
+		await safeSendMessage(adminId, `❌ ${created.error}`);
+		return;
+	}
+	
+	await safeSendMessage(adminId, `✅ Команда «${name}» (#${created.organization.id}) создана, руководитель ${leadToken}.`);
+	await safeSendMessage(lead.userId, `👥 Вы назначены руководителем команды «${name}». Ваши регионы и фильтры стали подписками команды. Добавляйте участников: /team add @username`);
+}
+
+async function handleTeamMembership(chatId: number, action: string, args: string[]) {
+	const membership = await getMembership(chatId);
+	if (!membership || membership.role !== 'lead') {
+		await safeSendMessage(chatId, 'Управлять составом может только руководитель команды.');
+		return;
+	}
+	
+	const target = await findActivatedUser(args[0]);
+	if (!target) {
+		await safeSendMessage(chatId, `Пользователь ${args[0] || ''} не найден или еще не нажал /start.`);
+		return;
+	}
+	
+	const { organization } = membership;
+	if (action === 'remove') {
+		if (Number(target.userId) === chatId) {
+			await safeSendMessage(chatId, 'Нельзя исключить из команды самого себя.');
+			return;
+		}
+		const removed = await removeMember(organization.id, Number(target.userId));
+		await safeSendMessage(chatId, removed ? `✅ @${target.username} исключен из команды.` : `@${target.username} не состоит в вашей команде.`);
+		if (removed) {
+			await safeSendMessage(target.userId, `Вы исключены из команды «${organization.name}». Лиды снова приходят по вашим личным подпискам.`);
+		}
+		return;
+	}
+	
+	const role = args[1]?.toLowerCase() === 'lead' ? 'lead' : 'member';
+	const error = await addMember(organization.id, Number(target.userId), role);
+	if (error) {
+		await safeSendMessage(chatId, `❌ ${error}`);
+		return;
+	}
+	await safeSendMessage(chatId, `✅ @${target.username} добавлен в команду${role === 'lead' ? ' как руководитель' : ''}.`);
+	await safeSendMessage(target.userId, `👥 Вас добавили в команду «${organization.name}». Лиды приходят по подпискам команды, регионы настраивает руководитель.`);
+}
+
+async function ensureCanEditSubscriptions(chatId: number): Promise<boolean> {
+	if (await canEditSubscriptions(chatId)) return true;
+	
+	const membership = await getMembership(chatId);
+	await safeSendMessage(chatId, `Подписки команды «${membership?.organization.name}» настраивает руководитель. Посмотреть их можно кнопкой «Мои регионы».`);
+	return false;
+}
+
+async function handleAssignmentCallback(callbackQuery: TelegramBot.CallbackQuery, action: AssignmentCallback) {
+	const userId = callbackQuery.from.id;
+	const access = await hasAccess(userId, callbackQuery.from.username);
+	if (access !== 'admin' && access !== 'activated') {
+		await bot.answerCallbackQuery(callbackQuery.id, { text: 'Нет доступа. Нажмите /start.' });
+		return;
+	}
+	
+	const membership = await getMembership(userId);
+	if (!membership) {
+		await bot.answerCallbackQuery(callbackQuery.id, { text: 'Вы не состоите в команде.' });
+		return;
+	}
+	
+	const { organization, role } = membership;
+	const { conclusionNumber } = action;
+	const message = callbackQuery.message;
+	const members = await listMembers(organization.id);
+	const assignment = await getLeadAssignment(organization.id, conclusionNumber);
+	const currentAssignee = assignment ? members.find(member => member.userId === Number(assignment.assigneeId)) : undefined;
+	
+	// Участники видят, за кем закреплен лид; назначает только руководитель
+	if (role !== 'lead') {
+		const text = currentAssignee || assignment
+			? `Лид закреплен за ${currentAssignee ? formatMemberName(currentAssignee) : `ID ${assignment!.assigneeId}`}.`
+			: 'Лид пока никому не назначен. Назначает руководитель команды.';
+		await bot.answerCallbackQuery(callbackQuery.id, { text, show_alert: true });
+		return;
+	}
+	
+	if (!message) {
+		await bot.answerCallbackQuery(callbackQuery.id);
+		return;
+	}
+	const target = { chat_id: message.chat.id, message_id: message.message_id };
+	
+	if (action.action === 'menu' || action.action === 'back') {
+		await bot.answerCallbackQuery(callbackQuery.id);
+		const keyboard = action.action === 'menu'
+			? buildAssigneeKeyboard(members, conclusionNumber, assignment ? Number(assignment.assigneeId) : null)
+			: await buildLeadKeyboard(userId, conclusionNumber, await getLeadStatus(userId, conclusionNumber));
+		await bot.editMessageReplyMarkup(keyboard || { inline_keyboard: [] }, target);
+		return;
+	}
+	
+	const assignee = members.find(member => member.userId === action.assigneeId);
+	if (!assignee) {
+		await bot.answerCallbackQuery(callbackQuery.id, { text: 'Пользователь больше не состоит в команде.' });
+		return;
+	}
+	
+	await assignLead(organization.id, conclusionNumber, assignee.userId, userId);
+	await bot.answerCallbackQuery(callbackQuery.id, { text: `Ответственный: ${formatMemberName(assignee)}` });
+	
+	const keyboard = await buildLeadKeyboard(userId, conclusionNumber, await getLeadStatus(userId, conclusionNumber));
+	if (message.text) {
+		await bot.editMessageText(applyAssigneeToMessageText(message.text, formatMemberName(assignee)), { ...target, reply_markup: keyboard || undefined });
+	} else if (keyboard) {
+		await bot.editMessageReplyMarkup(keyboard, target);
+	}
+	
+	// Остальные участники узнают, кто взял лид, чтобы не звонить застройщику повторно
+	const leadName = formatMemberName(members.find(member => member.userId === userId) || { userId, username: callbackQuery.from.username || null });
+	for (const member of members) {
+		if (member.userId === userId) continue;
+		const notification = member.userId === assignee.userId
+			? `📌 ${leadName} назначил вам лид ${conclusionNumber}. Открыть его можно через /search ${conclusionNumber}`
+			: `👤 Лид ${conclusionNumber} закреплен за ${formatMemberName(assignee)}.`;
+		await safeSendMessage(member.userId, notification);
+	}
+}
+
+// =============================================================================
+// РАССЫЛКА В ГРУППЫ И КАНАЛЫ (только для администратора)
+// =============================================================================
+const TARGET_HELP = `Настройка рассылки в группу (команды отправляются в самой группе):
+/target — текущие настройки чата
+/target on — включить рассылку в этот чат
+/target regions 77, 78 — задать регионы чата
+/target off — отключить рассылку
+
+Для каналов те же команды отправляются в личном чате с ботом с указанием канала:
+/target @channel on, /target -100123456789 regions 77
+/target list — все группы и каналы`;
+
+let botUserId: number | null = null;
+async function getBotUserId(): Promise<number> {
+	if (botUserId === null) {
+		botUserId = (await bot.getMe()).id;
+	}
+	return botUserId;
+}
+
+function parseTargetArgs(text: string): string[] {
+	return text.replace(/^\/target(@\S+)?/, '').trim().split(/\s+/).filter(Boolean);
+}
+
+async function handleGroupMessage(msg: TelegramBot.Message, text: string) {
+	if (!text.startsWith('/target')) return;
+	
+	if (!msg.from || !isAdmin(msg.from.id)) {
+		await safeSendMessage(msg.chat.id, 'Настраивать рассылку в чат может только администратор бота.');
+		return;
+	}
+	await handleTargetCommand(msg.chat.id, msg.chat, msg.from.id, parseTargetArgs(text));
+}
+
+// /target list, /target @channel on, /target -100123456789 regions 77, 78
+async function handlePrivateTargetCommand(adminId: number, text: string) {
+	const [chatRef, ...args] = parseTargetArgs(text);
+	if (!chatRef) {
+		await safeSendMessage(adminId, TARGET_HELP);
+		return;
+	}
+	if (chatRef === 'list') {
+		await showDeliveryTargets(adminId);
+		return;
+	}
+	
+	let chat: TelegramBot.Chat;
+	try {
+		chat = await bot.getChat(chatRef);
+	} catch (error: any) {
+		await safeSendMessage(adminId, `Чат ${chatRef} не найден. Добавьте бота в канал администратором и повторите команду.`);
+		return;
+	}
+	if (chat.type === 'private') {
+		await safeSendMessage(adminId, 'Личный чат не может быть получателем рассылки для групп.');
+		return;
+	}
+	await handleTargetCommand(adminId, chat, adminId, args);
+}
+
+async function handleTargetCommand(replyChatId: number, chat: TelegramBot.Chat, adminId: number, args: string[]) {
+	const [subcommand = '', ...rest] = args;
+	const target = await getDeliveryTarget(chat.id);
+	
+	switch (subcommand.toLowerCase()) {
+		case '': {
+			if (!target) {
+				await safeSendMessage(replyChatId, `Рассылка в этот чат не настроена.\n\n${TARGET_HELP}`);
+				return;
+			}
+			const regions = parseUserConfig(target.configData).regions;
+			await safeSendMessage(replyChatId, `📢 Чат ${formatDeliveryTarget(target)}\n`
+				+ `Рассылка: ${target.status === 'active' ? 'включена' : 'отключена (нет доступа к чату)'}\n`
+				+ (regions.length > 0 ? `Регионы:\n- ${regions.join('\n- ')}` : 'Регионы не заданы: /target regions 77, 78'));
+			return;
+		}
+		case 'on': {
+			if (chat.type === 'channel') {
+				const member = await bot.getChatMember(chat.id, await getBotUserId());
+				if (member.status !== 'administrator' || member.can_post_messages === false) {
+					await safeSendMessage(replyChatId, 'Бот должен быть администратором канала с правом публикации сообщений.');
+					return;
+				}
+			}
+			const registered = await registerDeliveryTarget(chat, adminId);
+			const hasRegions = parseUserConfig(registered.configData).regions.length > 0;
+			await safeSendMessage(replyChatId, `✅ Рассылка в чат ${formatDeliveryTarget(registered)} включена.`
+				+ (hasRegions ? '' : '\nУкажите регионы: /target regions 77, 78'));
+			return;
+		}
+		case 'off': {
+			const removed = await removeDeliveryTarget(chat.id);
+			await safeSendMessage(replyChatId, removed ? '✅ Рассылка в этот чат отключена.' : 'Рассылка в этот чат не была настроена.');
+			return;
+		}
+		case 'regions': {
+			if (!target) {
+				await safeSendMessage(replyChatId, 'Сначала включите рассылку: /target on');
+				return;
+			}
+			const codes = rest.join(' ').split(/[\s,]+/).filter(Boolean);
+			const unknownCodes = codes.filter(code => !REGIONS[code]);
+			if (codes.length === 0 || unknownCodes.length > 0) {
+				await safeSendMessage(replyChatId, codes.length === 0
+					? 'Укажите коды регионов через запятую, например: /target regions 77, 78'
+					: `❌ Не удалось найти регионы с кодами: ${unknownCodes.join(', ')}`);
+				return;
+			}
+			
+			const targetConfig = parseUserConfig(target.configData);
+			targetConfig.regions = Array.from(new Set(codes)).map(code => `${REGIONS[code]} - ${code}`);
+			await saveDeliveryTargetConfig(target, targetConfig);
+			logger.info(`[TARGETS] Администратор ${adminId} задал регионы чата ${target.chatId}: ${codes.join(', ')}`);
+			await safeSendMessage(replyChatId, `✅ Регионы чата:\n- ${targetConfig.regions.join('\n- ')}\n\nЛиды начнут приходить со следующего планового запуска.`);
+			return;
+		}
+	}
+	await safeSendMessage(replyChatId, TARGET_HELP);
+}
+
+async function showDeliveryTargets(adminId: number) {
+	const targets = await listDeliveryTargets();
+	if (targets.length === 0) {
+		await safeSendMessage(adminId, `Групп и каналов для рассылки пока нет.\n\n${TARGET_HELP}`);
+		return;
+	}
+	
+	const lines = targets.map(target => {
+		const regions = parseUserConfig(target.configData).regions.map(region => region.split(' - ')[1]);
+		return `${target.status === 'active' ? '✅' : '⛔'} ${formatDeliveryTarget(target)}, ${target.chatType}: ${regions.length > 0 ? regions.join(', ') : 'регионы не заданы'}`;
+	});
+	await safeSendMessage(adminId, `📢 Группы и каналы:\n\n${lines.join('\n')}`);
+}
+
+// В каналах нет отправителя команды, поэтому настройка канала выполняется из личного чата
+bot.on('channel_post', async (post) => {
+	if (!(post.text || '').startsWith('/target')) return;
+	await safeSendMessage(post.chat.id, `ID канала: ${post.chat.id}. Настройте рассылку из личного чата с ботом: /target ${post.chat.id} on`);
+});
+
+// Бота удалили из группы или канала — рассылка в чат отключается
+bot.on('my_chat_member', async (update) => {
+	const status = update.new_chat_member.status;
+	if (update.chat.type !== 'private' && (status === 'left' || status === 'kicked')) {
+		await markDeliveryTargetUnreachable(update.chat.id, 'бот удален из чата');
+	}
+});
+
+// =============================================================================
+// ВЕБХУКИ (отправка новых лидов во внешние системы)
+// =============================================================================
+const WEBHOOK_HELP = `Вебхуки: каждый новый лид отправляется POST-запросом с JSON и подписью HMAC-SHA256.
+/webhook — ваши вебхуки
+/webhook add <https://адрес> — добавить вебхук (секрет для подписи придет в ответ)
+/webhook test <id> — отправить тестовое событие
+/webhook log <id> — последние доставки
+/webhook remove <id> — удалить вебхук
+
+Подпись: заголовок ${SIGNATURE_HEADER} = sha256=HMAC(секрет, "<${TIMESTAMP_HEADER}>.<тело запроса>").`;
+
+const WEBHOOK_DELIVERY_ICONS = {
+	pending: '⏳',
+	sending: '📤',
+	sent: '✅',
+	failed: '❌',
+};
+
+// /webhook add https://crm.example.com/hooks/egrz [все]
+async function handleWebhookCommand(chatId: number, text: string) {
+	const [subcommand = '', ...args] = text.replace(/^\/webhook(@\S+)?/, '').trim().split(/\s+/).filter(Boolean);
+	const help = isAdmin(chatId) ? `${WEBHOOK_HELP}\n\nАдминистратор может добавить "все" после адреса, чтобы получать все новые лиды.` : WEBHOOK_HELP;
+	
+	switch (subcommand.toLowerCase()) {
+		case '': {
+			const webhooks = await listWebhooks(chatId);
+			const lines = webhooks.map(webhook => `#${webhook.id} ${webhook.url}${webhook.allLeads ? ' (все лиды)' : ''}`);
+			await safeSendMessage(chatId, webhooks.length > 0 ? `🔗 Ваши вебхуки:\n${lines.join('\n')}\n\n${help}` : `Вебхуков пока нет.\n\n${help}`);
+			return;
+		}
+		case 'add': {
+			const [url, scope] = args;
+			const urlError = url ? await validateWebhookUrl(url) : 'Укажите адрес вебхука.';
+			if (urlError) {
+				await safeSendMessage(chatId, `❌ ${urlError}`);
+				return;
+			}
+			const allLeads = scope?.toLowerCase() === 'все';
+			if (allLeads && !isAdmin(chatId)) {
+				await safeSendMessage(chatId, '❌ Получать все лиды может только администратор.');
+				return;
+			}
+			const webhook = await createWebhook(chatId, url, allLeads);
+			await safeSendMessage(chatId, `✅ Вебхук #${webhook.id} добавлен.\nСекрет для проверки подписи (сохраните его, повторно он не показывается):\n${webhook.secret}\n\nПроверить доставку: /webhook test ${webhook.id}`);
+			return;
+		}
+		case 'test':
+		case 'log':
+		case 'remove': {
+			const webhook = await getOwnedWebhook(chatId, Number(args[0]));
+			if (!webhook) {
+				await safeSendMessage(chatId, `Вебхук #${args[0] || '?'} не найден среди ваших.`);
+				return;
+			}
+			if (subcommand === 'test') {
+				await enqueueTestWebhook(webhook);
+				await safeSendMessage(chatId, `⏳ Тестовое событие поставлено в очередь. Результат: /webhook log ${webhook.id}`);
+			} else if (subcommand === 'log') {
+				await showWebhookLog(chatId, webhook.id);
+			} else {
+				await deleteWebhook(webhook);
+				await safeSendMessage(chatId, `✅ Вебхук #${webhook.id} удален.`);
+			}
+			return;
+		}
+	}
+	await safeSendMessage(chatId, help);
+}
+
+async function showWebhookLog(chatId: number, webhookId: number) {
+	const deliveries = await getRecentDeliveries(webhookId);
+	if (deliveries.length === 0) {
+		await safeSendMessage(chatId, `Доставок в вебхук #${webhookId} пока не было.`);
+		return;
+	}
+	
+	const lines = deliveries.map(delivery => {
+		const details = delivery.status === 'sent'
+			? `HTTP ${delivery.responseStatus}`
+			: `попыток: ${delivery.attempts}${delivery.lastError ? `, ${truncate(delivery.lastError, 80)}` : ''}`;
+		return `${WEBHOOK_DELIVERY_ICONS[delivery.status]} ${formatMoscowTime(delivery.createdAt)} ${delivery.event}${delivery.conclusionNumber ? ` ${delivery.conclusionNumber}` : ''} — ${details}`;
+	});
+	await safeSendMessage(chatId, `🔗 Вебхук #${webhookId}, последние доставки:\n\n${lines.join('\n')}`);
+}
+
+// =============================================================================
+// ВЫГРУЗКА ДОСТАВЛЕННЫХ ЛИДОВ
+// =============================================================================
+const EXPORT_HELP = `Формат команды: /export [csv|xlsx] [с:ГГГГ-ММ-ДД] [по:ГГГГ-ММ-ДД] [регион:код] [статус:название]
+Выгружает доставленные вам лиды за период доставки.
+Статусы: ${Object.values(LEAD_STATUS_LABELS).map(label => label.toLowerCase().replace(/\s+/g, '_')).join(', ')}.
+Например: /export xlsx с:2026-09-01 регион:77 статус:сделка`;
+
+// /export xlsx с:2026-09-01 по:2026-09-30 регион:77 статус:сделка [все]
+async function handleExportCommand(chatId: number, text: string) {
+	const input = text.replace(/^\/export(@\S+)?/, '').trim();
+	if (input === 'help' || input === 'помощь') {
+		await safeSendMessage(chatId, isAdmin(chatId) ? `${EXPORT_HELP}\nПараметр "все" — выгрузка по всем пользователям.` : EXPORT_HELP);
+		return;
+	}
+	
+	const parsed = parseExportQuery(input);
+	if ('error' in parsed) {
+		await safeSendMessage(chatId, `❌ ${parsed.error}\n\n${EXPORT_HELP}`);
+		return;
+	}
+	
+	const { criteria } = parsed;
+	if (criteria.allUsers && !isAdmin(chatId)) {
+		await safeSendMessage(chatId, '❌ Выгрузка по всем пользователям доступна только администратору.');
+		return;
+	}
+	
+	try {
+		const file = await buildLeadExport(chatId, criteria);
+		if (file.rowCount === 0) {
+			await safeSendMessage(chatId, 'За выбранный период доставленных лидов не найдено.');
+			return;
+		}
+		
+		const caption = `📎 Выгружено лидов: ${file.rowCount}${file.truncated ? ' (достигнут лимит выгрузки, уточните период)' : ''}`;
+		await bot.sendDocument(chatId, file.content, { caption }, { filename: file.filename, contentType: file.contentType });
+	} catch (error) {
+		logger.error(`[BOT] Ошибка выгрузки лидов для ${chatId}:`, error);
+		await safeSendMessage(chatId, '❌ Не удалось сформировать выгрузку. Попробуйте позже.');
+	}
+}
+
+// =============================================================================
+// СТАТУС ПЛАНИРОВЩИКА (только для администратора)
+// =============================================================================
+const RUN_STATUS_ICONS = {
+	running: '⏳',
+	success: '✅',
+	partial: '⚠️',
+	failed: '❌',
+};
+
+// Ограничения, чтобы ответ /status укладывался в лимит Telegram в 4096 символов
+const STATUS_MAX_ERROR_LENGTH = 200;
+const STATUS_MAX_FAILING_REGIONS = 10;
+const TELEGRAM_MAX_MESSAGE_LENGTH = 4096;
+
+function formatMoscowTime(date: Date): string {
+	return date.toLocaleString('ru-RU', { timeZone: 'Europe/Moscow', day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+}
+
+async function showSchedulerStatus(chatId: number) {
+	const runs = await getRecentRuns(10);
+	const runningTask = await getRunningTaskInfo();
+	
+	let response = runningTask
+		? `⏳ Задача выполняется сейчас (${Math.round((Date.now() - runningTask.acquiredAt.getTime()) / 1000)}с, процесс ${runningTask.ownerId})\n\n`
+		: '';
+	
+	if (runs.length === 0) {
+		await safeSendMessage(chatId, response + 'Запусков планировщика пока не было.');
+		return;
+	}
+	
+	response += 'Последние запуски:\n' + runs.slice(0, 5).map(run => {
+		const duration = run.durationMs !== null ? `${Math.round(run.durationMs / 1000)}с` : '—';
+		return `${RUN_STATUS_ICONS[run.status]} ${formatMoscowTime(run.startedAt)} (${duration}): регионов ${run.totalRegions}, записей ${run.totalRecords}, обработано ${run.processedRecords}, пропущено ${run.skippedRecords}, ошибок ${run.errorRecords}`
+			+ (run.errorMessage ? `\n   Ошибка: ${truncate(run.errorMessage, STATUS_MAX_ERROR_LENGTH)}` : '');
+	}).join('\n');
+	
+	const failingRegions = getFailingRegions(runs);
+	if (failingRegions.length > 0) {
+		response += `\n\nРегионы с ошибками (за ${runs.length} запусков):\n` + failingRegions.slice(0, STATUS_MAX_FAILING_REGIONS).map(entry =>
+			`- ${entry.region}: ${entry.failedRuns} раз` + (entry.lastError ? ` (${truncate(entry.lastError, STATUS_MAX_ERROR_LENGTH)})` : ''),
+		).join('\n');
+		if (failingRegions.length > STATUS_MAX_FAILING_REGIONS) {
+			response += `\n…и еще ${failingRegions.length - STATUS_MAX_FAILING_REGIONS}. Полный список: GET /api/runs`;
+		}
+	}
+	
+	await safeSendMessage(chatId, response.slice(0, TELEGRAM_MAX_MESSAGE_LENGTH));
+}
+
+// =============================================================================
+// НАСТРОЙКИ ВРЕМЕНИ ВЫПОЛНЕНИЯ (только для администратора)
+// =============================================================================
+// /settings — список, /settings KEY VALUE — изменить, /settings KEY default — сбросить
+async function handleSettingsCommand(chatId: number, text: string) {
+	const [, key, ...valueParts] = text.split(/\s+/);
+	
+	if (!key) {
+		const settings = getSettings();
+		const lines = (Object.keys(settings) as SettingKey[]).map(settingKey => {
+			const isDefault = settings[settingKey] === DEFAULT_SETTINGS[settingKey];
+			return `${settingKey} = ${settings[settingKey]}${isDefault ? '' : ` (по умолчанию ${DEFAULT_SETTINGS[settingKey]})`}\n   ${SETTING_DESCRIPTIONS[settingKey]}`;
+		});
+		await safeSendMessage(chatId, `⚙️ Текущие настройки:\n${lines.join('\n')}\n\nИзменить: /settings КЛЮЧ ЗНАЧЕНИЕ\nСбросить: /settings КЛЮЧ default`);
+		return;
+	}
+	
+	const settingKey = key.toUpperCase();
+	if (!isSettingKey(settingKey)) {
+		await safeSendMessage(chatId, `Неизвестная настройка: ${key}. Список настроек: /settings`);
+		return;
+	}
+	
+	const value = valueParts.join(' ');
+	if (!value) {
+		await safeSendMessage(chatId, `${settingKey} = ${getSettings()[settingKey]}\n${SETTING_DESCRIPTIONS[settingKey]}`);
+		return;
+	}
+	
+	if (value.toLowerCase() === 'default') {
+		const resetError = await resetSetting(settingKey);
+		if (resetError) {
+			await safeSendMessage(chatId, `❌ Нельзя сбросить ${settingKey}: ${resetError}`);
+			return;
+		}
+		logger.info(`[ADMIN] Администратор ${chatId} сбросил настройку ${settingKey}`);
+		await safeSendMessage(chatId, `✅ ${settingKey} сброшена к значению по умолчанию: ${DEFAULT_SETTINGS[settingKey]}`);
+		return;
+	}
+	
+	const validationError = await updateSetting(settingKey, value, chatId);
+	if (validationError) {
+		await safeSendMessage(chatId, `❌ Некорректное значение для ${settingKey}: ${validationError}`);
+		return;
+	}
+	
+	logger.info(`[ADMIN] Администратор ${chatId} изменил настройку ${settingKey} = ${value}`);
+	await safeSendMessage(chatId, `✅ ${settingKey} = ${getSettings()[settingKey]}`);
+}
+
+// =============================================================================
+// РАСХОДЫ НА AI (только для администратора)
+// =============================================================================
+const AI_USAGE_TOP_REGIONS = 20;
+
+function formatUsageLine(entry: IAiUsageAggregate): string {
+	const tokens = entry.promptTokens + entry.completionTokens;
+	return `${entry.key}: ${entry.requests} запр., ${tokens.toLocaleString('ru-RU')} токенов, $${entry.costUsd.toFixed(4)}`;
+}
+
+// /ai_usage [дней] — расходы по дням и регионам, по умолчанию за 7 дней
+async function showAiUsage(chatId: number, text: string) {
+	const [, daysArg] = text.split(/\s+/);
+	const days = daysArg ? parseInt(daysArg, 10) : 7;
+	if (!Number.isInteger(days) || days < 1 || days > 31) {
+		await safeSendMessage(chatId, 'Формат команды: /ai_usage [количество дней от 1 до 31]');
+		return;
+	}
+	
+	const report = await getAiUsageReport(days);
+	const budget = getSettings().AI_MONTHLY_BUDGET_USD;
+	let response = `💰 Расход на AI с начала месяца: $${report.monthSpendUsd.toFixed(2)}`
+		+ (budget > 0 ? ` из $${budget.toFixed(2)}` : ' (бюджет не ограничен)');
+	
+	if (report.days.length === 0) {
+		await safeSendMessage(chatId, `${response}\n\nЗа последние ${days} дн. запросов к AI не было.`);
+		return;
+	}
+	
+	response += `\n\nПо дням (за ${days} дн.):\n${report.days.map(formatUsageLine).join('\n')}`;
+	// Ограничиваем список регионов, чтобы отчет поместился в одно сообщение
+	const topRegions = report.regions.slice(0, AI_USAGE_TOP_REGIONS);
+	response += `\n\nПо регионам:\n${topRegions.map(formatUsageLine).join('\n')}`
+		+ (report.regions.length > topRegions.length ? `\n…и еще ${report.regions.length - topRegions.length}` : '');
+	await safeSendMessage(chatId, response);
+}
+
+// =============================================================================
+// ПРОМПТ AI И ПЕРЕСОЗДАНИЕ КЕША (только для администратора)
+// =============================================================================
+const PROMPT_HELP = `/prompt show [версия] — текст версии (по умолчанию действующей)
+/prompt set — отправить новый текст следующим сообщением
+/prompt use <версия> — сделать старую версию действующей (сохраняется как новая)
+/regenerate <дата начала> [дата окончания] — пересоздать сообщения по действующему промпту (с подтверждением)`;
+
+function formatPromptVersion(prompt: IPromptVersion): string {
+	if (prompt.version === 0) return 'v0 (встроенный)';
+	const author = prompt.createdBy ? `, админ ${prompt.createdBy}` : '';
+	return `v${prompt.version} (${prompt.createdAt ? formatMoscowTime(prompt.createdAt) : '—'}${author})`;
+}
+
+// /prompt — версии, /prompt show N, /prompt set, /prompt use N
+async function handlePromptCommand(chatId: number, text: string) {
+	const [, subcommand, versionArg] = text.split(/\s+/);
+	
+	if (!subcommand) {
+		const active = await getActivePrompt();
+		const versions = await listPromptVersions(10);
+		const history = versions.length > 0 ? versions.map(formatPromptVersion).join('\n') : 'Версий в БД нет, используется встроенный промпт.';
+		await safeSendMessage(chatId, `🧠 Действующий промпт: ${formatPromptVersion(active)}\n\nПоследние версии:\n${history}\n\n${PROMPT_HELP}`);
+		return;
+	}
+	
+	switch (subcommand.toLowerCase()) {
+		case 'show': {
+			const prompt = versionArg ? await getPromptVersion(Number(versionArg)) : await getActivePrompt();
+			if (!prompt) {
+				await safeSendMessage(chatId, `Версия ${versionArg} не найдена.`);
+				return;
+			}
+			const promptText = `${formatPromptVersion(prompt)}:\n\n${prompt.content}`;
+			if (promptText.length <= TELEGRAM_MAX_MESSAGE_LENGTH) {
+				await safeSendMessage(chatId, promptText);
+				return;
+			}
+			// Длинный промпт (например, встроенный) не помещается в одно сообщение Telegram
+			try {
+				await bot.sendDocument(
+					chatId,
+					Buffer.from(prompt.content, 'utf8'),
+					{ caption: formatPromptVersion(prompt) },
+					{ filename: `prompt-v${prompt.version}.txt`, contentType: 'text/plain' },
+				);
+			} catch (error) {
+				logger.error(`[BOT] Ошибка отправки промпта v${prompt.version} в чат ${chatId}:`, error);
+				await safeSendMessage(chatId, '❌ Не удалось отправить текст промпта. Попробуйте позже.');
+			}
+			return;
+		}
+		case 'set':
+			userAction.set(chatId, 'awaiting_prompt_input');
+			await safeSendMessage(chatId, `Отправьте новый текст промпта одним сообщением (до ${MAX_PROMPT_LENGTH} символов). Промпт должен требовать от модели JSON в том же формате, что и встроенный: /prompt show 0`);
+			return;
+		case 'use': {
+			const prompt = versionArg ? await getPromptVersion(Number(versionArg)) : null;
+			if (!prompt) {
+				await safeSendMessage(chatId, 'Формат команды: /prompt use <номер существующей версии>');
+				return;
+			}
+			const validationError = validatePromptContent(prompt.content.trim());
+			if (validationError) {
+				await safeSendMessage(chatId, `❌ Версию v${prompt.version} нельзя сделать действующей: ${validationError}`);
+				return;
+			}
+			const saved = await savePromptVersion(prompt.content, chatId);
+			logger.info(`[ADMIN] Администратор ${chatId} восстановил промпт v${prompt.version} как v${saved.version}`);
+			await safeSendMessage(chatId, `✅ Текст версии v${prompt.version} сохранен как ${formatPromptVersion(saved)} и стал действующим.`);
+			return;
+		}
+		default:
+			await safeSendMessage(chatId, PROMPT_HELP);
+	}
+}
+
+async function handlePromptInput(chatId: number, text: string) {
+	const content = text.trim();
+	const validationError = validatePromptContent(content);
+	if (validationError) {
+		await safeSendMessage(chatId, `❌ ${validationError} Исправьте текст и повторите /prompt set.`);
+		return;
+	}
+	
+	const saved = await savePromptVersion(content, chatId);
+	logger.info(`[ADMIN] Администратор ${chatId} сохранил промпт ${formatPromptVersion(saved)}`);
+	await safeSendMessage(chatId, `✅ Сохранен промпт ${formatPromptVersion(saved)}, он используется для новых лидов.\nЧтобы обновить уже сохраненные сообщения: /regenerate <дата начала> [дата окончания]`);
+}
+
+// Предел одного запуска /regenerate: каждое сообщение — отдельный запрос к AI
+const REGENERATE_MAX_LEADS = 500;
+const REGENERATE_CONFIRMATION = 'да';
+
+// /regenerate 2026-10-01 2026-10-15 — показать, сколько сообщений устарело;
+// /regenerate 2026-10-01 2026-10-15 да — пересоздать их по действующему промпту
+async function handleRegenerateCommand(chatId: number, text: string) {
+	const args = text.split(/\s+/).slice(1);
+	const confirmed = args[args.length - 1]?.toLowerCase() === REGENERATE_CONFIRMATION;
+	const [dateFrom, dateTo] = confirmed ? args.slice(0, -1) : args;
+	if (!dateFrom) {
+		await safeSendMessage(chatId, 'Формат команды: /regenerate <дата начала> [дата окончания]\nНапример: /regenerate 2026-10-01 2026-10-15');
+		return;
+	}
+	
+	const rangeEnd = dateTo || dateFrom;
+	const rangeError = validateHistoryRange(dateFrom, rangeEnd);
+	if (rangeError) {
+		await safeSendMessage(chatId, `❌ ${rangeError}`);
+		return;
+	}
+	
+	const staleCount = await countStaleProcessedLeads(dateFrom, rangeEnd);
+	if (staleCount === 0) {
+		await safeSendMessage(chatId, `Все сообщения за ${dateFrom} — ${rangeEnd} уже соответствуют действующему промпту.`);
+		return;
+	}
+	if (staleCount > REGENERATE_MAX_LEADS) {
+		await safeSendMessage(chatId, `❌ За ${dateFrom} — ${rangeEnd} устарело ${staleCount} сообщений, за один запуск можно пересоздать не больше ${REGENERATE_MAX_LEADS}. Укажите период короче.`);
+		return;
+	}
+	if (!confirmed) {
+		await safeSendMessage(chatId, `За ${dateFrom} — ${rangeEnd} устарело ${staleCount} сообщений, на каждое понадобится запрос к AI.\nЧтобы пересоздать их, отправьте:\n/regenerate ${dateFrom} ${rangeEnd} ${REGENERATE_CONFIRMATION}`);
+		return;
+	}
+	
+	await safeSendMessage(chatId, `🔄 Пересоздаю ${staleCount} сообщений за ${dateFrom} — ${rangeEnd}. Прогресс буду присылать по дням.`);
+	try {
+		const totals = await regenerateProcessedLeads(dateFrom, rangeEnd, async (day, dayIndex, totalDays, result) => {
+			await safeSendMessage(chatId, `⏳ ${day} (${dayIndex}/${totalDays}) — записей ${result.totalRecords}, устаревших ${result.staleRecords}, пересоздано ${result.regeneratedRecords}.`);
+		});
+		await safeSendMessage(chatId, `✅ Готово. Пересоздано сообщений: ${totals.regeneratedRecords} из ${totals.staleRecords}` + (totals.failedRecords > 0 ? `, не удалось: ${totals.failedRecords}` : '') + '.');
+	} catch (error) {
+		logger.error(`[ADMIN] Ошибка пересоздания сообщений за ${dateFrom}..${rangeEnd}:`, error);
+		await safeSendMessage(chatId, '❌ Пересоздание прервано из-за ошибки. Уже обновленные сообщения сохранены, повторите команду позже.');
+	}
+}
+
+// =============================================================================
+// ФИЛЬТРЫ ЛИДОВ ПО КЛЮЧЕВЫМ СЛОВАМ
+// =============================================================================
+
+const FILTER_HELP = `Чтобы добавить правило, отправьте строку вида:
++застройщик ПИК — только записи, где застройщик содержит «ПИК»
+-объект /гараж|склад/ — исключить записи, где объект подходит под регулярное выражение
+77: +застройщик ПИК — правило только для подписки на регион 77, без кода — для всех регионов
+
+Поля: объект, застройщик, проектировщик. Можно отправить несколько правил, по одному на строку.
+Шаблон — не длиннее 100 символов, квантификаторы над группами с квантификатором или альтернативой вроде /(а+)+/ и /(а|аа)+/ не поддерживаются.
+«удалить 2» — удалить правило №2, «очистить» — удалить все правила.
+
+Отбор по классификации AI:
+категории жилой, социальный — только объекты этих типов (${Object.values(OBJECT_TYPE_LABELS).join(', ')}), «категории все» — сбросить
+оценка 60 — только лиды с оценкой от 60 до 100, «оценка 0» — сбросить`;
+
+function formatFilterList(filters: ILeadFilterRule[]): string {
+	return filters.map((rule, index) => `${index + 1}. ${formatFilterRule(rule)}`).join('\n');
+}
+
+function formatClassificationSettings(userConfig: IUserConfig): string | null {
+	const lines: string[] = [];
+	if (userConfig.categories && userConfig.categories.length > 0) {
+		lines.push(`Категории: ${formatObjectTypes(userConfig.categories)}`);
+	}
+	if (userConfig.minScore) {
+		lines.push(`Минимальная оценка: ${userConfig.minScore}`);
+	}
+	return lines.length > 0 ? lines.join('\n') : null;
+}
+
+async function promptForFilterInput(chatId: number) {
+	const config = await getSubscriptionConfig(chatId);
+	let current = config.filters && config.filters.length > 0
+		? `Ваши фильтры:\n${formatFilterList(config.filters)}`
+		: 'Фильтры не заданы, вы получаете все записи по своим регионам.';
+	const classificationSettings = formatClassificationSettings(config);
+	if (classificationSettings) {
+		current += `\n${classificationSettings}`;
+	}
+	
+	userAction.set(chatId, 'awaiting_filter_input');
+	await safeSendMessage(chatId, `${current}\n\n${FILTER_HELP}`);
+}
+
+async function handleFilterInput(chatId: number, text: string) {
+	const config = await getSubscriptionConfig(chatId);
+	const filters = config.filters || [];
+	const command = text.toLowerCase();
+	
+	if (command === 'очистить') {
+		config.filters = [];
+		await saveSubscriptionConfig(chatId, config);
+		await safeSendMessage(chatId, '✅ Все фильтры удалены.');
+		return;
+	}
+	
+	const categoriesMatch = command.match(/^категории\s+(.+)$/);
+	if (categoriesMatch) {
+		if (categoriesMatch[1].trim() === 'все') {
+			config.categories = [];
+			await saveSubscriptionConfig(chatId, config);
+			await safeSendMessage(chatId, '✅ Вы получаете лиды всех категорий.');
+			return;
+		}
+		const categories = parseObjectTypes(categoriesMatch[1]);
+		if (!categories) {
+			await safeSendMessage(chatId, `Не удалось распознать категории. Доступны: ${Object.values(OBJECT_TYPE_LABELS).join(', ')}.`);
+			return;
+		}
+		config.categories = categories;
+		await saveSubscriptionConfig(chatId, config);
+		await safeSendMessage(chatId, `✅ Категории: ${formatObjectTypes(categories)}`);
+		return;
+	}
+	
+	const scoreMatch = command.match(/^оценка\s+(\d+)$/);
+	if (scoreMatch) {
+		const minScore = Number(scoreMatch[1]);
+		if (minScore > 100) {
+			await safeSendMessage(chatId, 'Оценка задается числом от 0 до 100.');
+			return;
+		}
+		config.minScore = minScore;
+		await saveSubscriptionConfig(chatId, config);
+		await safeSendMessage(chatId, minScore > 0
+			? `✅ Вы получаете лиды с оценкой от ${minScore}. Лиды без оценки AI приходят без ограничений.`
+			: '✅ Ограничение по оценке снято.');
+		return;
+	}
+	
+	const deleteMatch = command.match(/^удалить\s+(\d+)$/);
+	if (deleteMatch) {
+		const index = Number(deleteMatch[1]) - 1;
+		if (index < 0 || index >= filters.length) {
+			await safeSendMessage(chatId, 'Правило с таким номером не найдено.');
+			return;
+		}
+		const [removed] = filters.splice(index, 1);
+		config.filters = filters;
+		await saveSubscriptionConfig(chatId, config);
+		await safeSendMessage(chatId, `✅ Правило удалено: ${formatFilterRule(removed)}`);
+		return;
+	}
+	
+	const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+	const invalidLines: string[] = [];
+	let addedCount = 0;
+	
+	for (const line of lines) {
+		const rule = parseFilterRule(line);
+		if (!rule) {
+			invalidLines.push(line);
+			continue;
+		}
+		filters.push(rule);
+		addedCount++;
+	}
+	
+	if (addedCount > 0) {
+		config.filters = filters;
+		await saveSubscriptionConfig(chatId, config);
+	}
+	
+	let response = addedCount > 0
+		? `✅ Фильтры обновлены:\n${formatFilterList(filters)}`
+		: 'Не удалось добавить ни одного правила.';
+	if (invalidLines.length > 0) {
+		response += `\n\n❌ Не распознаны строки:\n- ${invalidLines.join('\n- ')}\n\n${FILTER_HELP}`;
 	}
+	await safeSendMessage(chatId, response);
 }
\ No newline at end of file
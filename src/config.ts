@@ -3,6 +3,21 @@ import { z } from 'zod';
 import { logger } from './logger';
 dotenv.config();
 
+// Описание LLM-провайдера с OpenAI-совместимым API (OpenAI, vLLM, Ollama, LM Studio и т.п.)
+const llmProviderSchema = z.object({
+	name: z.string().min(1),
+	baseURL: z.string().url().optional(),
+	apiKey: z.string().optional(),
+	model: z.string().min(1),
+	temperature: z.number().min(0).max(2).optional(),
+	maxTokens: z.number().int().positive().optional(),
+	// Цены за 1 млн токенов в USD для учета расходов
+	inputPricePer1M: z.number().min(0).optional(),
+	outputPricePer1M: z.number().min(0).optional(),
+});
+
+export type LLMProviderConfig = z.infer<typeof llmProviderSchema>;
+
 // Создаем схему для валидации переменных окружения
 const configSchema = z.object({
 	// База данных
@@ -12,6 +27,12 @@ const configSchema = z.object({
 	DB_PASSWORD: z.string().default(''),
 	// Токен бота
 	BOT_TOKEN: z.string().min(1, { message: 'BOT_TOKEN не может быть пустым' }),
+	// Получение обновлений Telegram: polling — long polling (для локальной разработки), webhook — через маршрут Express
+	BOT_MODE: z.enum(['polling', 'webhook']).default('polling'),
+	// Публичный https-адрес приложения, на который Telegram отправляет обновления в режиме webhook
+	BOT_WEBHOOK_URL: z.string().url().refine(url => url.startsWith('https://'), { message: 'BOT_WEBHOOK_URL должен начинаться с https://' }).optional(),
+	// Секрет, который Telegram передает в заголовке X-Telegram-Bot-Api-Secret-Token
+	BOT_WEBHOOK_SECRET: z.string().regex(/^[A-Za-z0-9_-]{16,256}$/, { message: 'BOT_WEBHOOK_SECRET: 16–256 символов A-Z, a-z, 0-9, _ и -' }).optional(),
 	
 	ADMIN_TELEGRAM_IDS: z
 		.string()
@@ -23,6 +44,51 @@ const configSchema = z.object({
 	PORT: z.coerce.number().default(3000),
 	// Ключи для внешних API (опционально, но лучше указать)
 	OPENAI_API_KEY: z.string().optional(),
+	// Адрес OpenAI-совместимого сервера (например, локального); по умолчанию api.openai.com
+	OPENAI_BASE_URL: z.string().url().optional(),
+	// Параметры генерации по умолчанию
+	LLM_MODEL: z.string().default('gpt-4o-mini'),
+	LLM_TEMPERATURE: z.coerce.number().min(0).max(2).default(0.1),
+	LLM_MAX_TOKENS: z.coerce.number().int().positive().default(1500),
+	// Цены за 1 млн входных/выходных токенов в USD (по умолчанию — gpt-4o-mini)
+	LLM_INPUT_PRICE_PER_1M: z.coerce.number().min(0).default(0.15),
+	LLM_OUTPUT_PRICE_PER_1M: z.coerce.number().min(0).default(0.6),
+	// Цепочка провайдеров в виде JSON-массива; при ошибке первого запрос уходит следующему.
+	// Если не задана, используется один провайдер из OPENAI_API_KEY/OPENAI_BASE_URL/LLM_MODEL
+	LLM_PROVIDERS: z
+		.string()
+		.optional()
+		.transform((val, ctx) => {
+			if (!val) return undefined;
+			try {
+				return JSON.parse(val);
+			} catch {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'LLM_PROVIDERS должен быть JSON-массивом' });
+				return z.NEVER;
+			}
+		})
+		.pipe(llmProviderSchema.array().min(1).optional()),
+	// Способ оформления лидов: ai — LLM с локальными правилами как резервом, rules — только локальные правила
+	LEAD_FORMATTER: z.enum(['ai', 'rules']).default('ai'),
+	// Режим получения данных ЕГРЗ: запрос на каждый регион или одна выгрузка на запуск
+	EGRZ_FETCH_MODE: z.enum(['per_region', 'bulk']).default('per_region'),
+	// Токен для административных HTTP-маршрутов (без него маршруты отключены)
+	ADMIN_API_TOKEN: z.string().optional(),
+	// Разрешить вебхуки на localhost для локальной отладки; в рабочем окружении не включать
+	WEBHOOK_ALLOW_LOCAL: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+	// Ключи REST API /api/v1 через запятую (без них API отключен)
+	API_KEYS: z
+		.string()
+		.optional()
+		.transform((val) => (val || '').split(',').map(s => s.trim()).filter(Boolean)),
+}).superRefine((value, ctx) => {
+	if (value.BOT_MODE !== 'webhook') return;
+	if (!value.BOT_WEBHOOK_URL) {
+		ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['BOT_WEBHOOK_URL'], message: 'BOT_WEBHOOK_URL обязателен в режиме webhook' });
+	}
+	if (!value.BOT_WEBHOOK_SECRET) {
+		ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['BOT_WEBHOOK_SECRET'], message: 'BOT_WEBHOOK_SECRET обязателен в режиме webhook' });
+	}
 });
 
 const parseResult = configSchema.safeParse(process.env);
@@ -99,4 +99,26 @@ export const REGIONS: Record<string, string> = {
 	'86': 'Ханты-Мансийский автономный округ — Югра',
 	'87': 'Чукотский автономный округ',
 	'89': 'Ямало-Ненецкий автономный округ'
-};
\ No newline at end of file
+};
+/**
+ * Возвращает значение региона в формате подписки ("Название - код") или null для неизвестного кода.
+ */
+export function getRegionValueByCode(code: string): string | null {
+	const regionName = REGIONS[code];
+	return regionName ? `${regionName} - ${code}` : null;
+}
+
+/**
+ * Определяет регион подписки по значению SubjectRf из выгрузки ЕГРЗ.
+ * Сравнение то же, что и в OData-фильтре: субъект содержит "Название - код".
+ */
+export function getRegionValueBySubject(subject: string): string | null {
+	const normalizedSubject = subject.toLowerCase();
+	for (const code of Object.keys(REGIONS)) {
+		const regionValue = `${REGIONS[code]} - ${code}`;
+		if (normalizedSubject.includes(regionValue.toLowerCase())) {
+			return regionValue;
+		}
+	}
+	return null;
+}
@@ -0,0 +1,91 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+interface IAiUsageAttributes {
+	id: number;
+	// Номер заключения экспертизы, для которого выполнялся запрос
+	conclusionNumber: string | null;
+	region: string | null;
+	provider: string;
+	model: string;
+	promptTokens: number;
+	completionTokens: number;
+	// Стоимость запроса по ценам провайдера (USD)
+	costUsd: number;
+	latencyMs: number;
+	createdAt?: Date;
+}
+
+interface IAiUsageCreationAttributes
+	extends Optional<IAiUsageAttributes, 'id' | 'conclusionNumber' | 'region'> {}
+
+export class AiUsage
+	extends Model<IAiUsageAttributes, IAiUsageCreationAttributes>
+	implements IAiUsageAttributes
+{
+	public id!: number;
+	public conclusionNumber!: string | null;
+	public region!: string | null;
+	public provider!: string;
+	public model!: string;
+	public promptTokens!: number;
+	public completionTokens!: number;
+	public costUsd!: number;
+	public latencyMs!: number;
+	public readonly createdAt!: Date;
+}
+
+AiUsage.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		conclusionNumber: {
+			type: DataTypes.STRING,
+			allowNull: true,
+		},
+		region: {
+			type: DataTypes.STRING,
+			allowNull: true,
+		},
+		provider: {
+			type: DataTypes.STRING(64),
+			allowNull: false,
+		},
+		model: {
+			type: DataTypes.STRING(128),
+			allowNull: false,
+		},
+		promptTokens: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+			defaultValue: 0,
+		},
+		completionTokens: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+			defaultValue: 0,
+		},
+		costUsd: {
+			type: DataTypes.DECIMAL(12, 6),
+			allowNull: false,
+			defaultValue: 0,
+			// DECIMAL возвращается драйвером строкой
+			get() {
+				return Number(this.getDataValue('costUsd'));
+			},
+		},
+		latencyMs: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+			defaultValue: 0,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'ai_usage',
+		timestamps: true,
+	}
+);
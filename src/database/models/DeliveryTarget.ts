@@ -0,0 +1,78 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+export type DeliveryTargetType = 'group' | 'supergroup' | 'channel';
+// active — получает рассылку, blocked — бота удалили из чата или лишили прав
+export type DeliveryTargetStatus = 'active' | 'blocked';
+
+interface IDeliveryTargetAttributes {
+	id: number;
+	chatId: number;
+	chatType: DeliveryTargetType;
+	title: string | null;
+	// Подписки чата в формате IUserConfig (JSON)
+	configData: string;
+	status: DeliveryTargetStatus;
+	addedBy: number | null;
+	createdAt?: Date;
+	updatedAt?: Date;
+}
+
+interface IDeliveryTargetCreationAttributes
+	extends Optional<IDeliveryTargetAttributes, 'id' | 'title' | 'status' | 'addedBy'> {}
+
+export class DeliveryTarget
+	extends Model<IDeliveryTargetAttributes, IDeliveryTargetCreationAttributes>
+	implements IDeliveryTargetAttributes
+{
+	public id!: number;
+	public chatId!: number;
+	public chatType!: DeliveryTargetType;
+	public title!: string | null;
+	public configData!: string;
+	public status!: DeliveryTargetStatus;
+	public addedBy!: number | null;
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+DeliveryTarget.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		chatId: {
+			type: DataTypes.BIGINT,
+			allowNull: false,
+			unique: true,
+		},
+		chatType: {
+			type: DataTypes.STRING(16),
+			allowNull: false,
+		},
+		title: {
+			type: DataTypes.STRING,
+			allowNull: true,
+		},
+		configData: {
+			type: DataTypes.TEXT,
+			allowNull: false,
+		},
+		status: {
+			type: DataTypes.STRING(16),
+			allowNull: false,
+			defaultValue: 'active',
+		},
+		addedBy: {
+			type: DataTypes.BIGINT,
+			allowNull: true,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'delivery_targets',
+		timestamps: true,
+	}
+);
@@ -0,0 +1,105 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+interface ILeadAttributes {
+	id: number;
+	conclusionNumber: string;
+	// Дата заключения экспертизы (YYYY-MM-DD)
+	conclusionDate: string | null;
+	// Субъект РФ из выгрузки ЕГРЗ как есть
+	subject: string | null;
+	// Регион в формате подписки ("Название - код")
+	region: string | null;
+	result: string | null;
+	developer: string | null;
+	preparer: string | null;
+	// Наименование и адрес объекта капитального строительства
+	object: string | null;
+	// Исходная строка CSV целиком (JSON), включая колонки, не описанные в IEgrzRecord
+	rawData: string;
+	firstSeenAt: Date;
+	createdAt?: Date;
+	updatedAt?: Date;
+}
+
+interface ILeadCreationAttributes
+	extends Optional<
+		ILeadAttributes,
+		'id' | 'conclusionDate' | 'subject' | 'region' | 'result' | 'developer' | 'preparer' | 'object' | 'firstSeenAt'
+	> {}
+
+export class Lead
+	extends Model<ILeadAttributes, ILeadCreationAttributes>
+	implements ILeadAttributes
+{
+	public id!: number;
+	public conclusionNumber!: string;
+	public conclusionDate!: string | null;
+	public subject!: string | null;
+	public region!: string | null;
+	public result!: string | null;
+	public developer!: string | null;
+	public preparer!: string | null;
+	public object!: string | null;
+	public rawData!: string;
+	public firstSeenAt!: Date;
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+Lead.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		conclusionNumber: {
+			type: DataTypes.STRING,
+			allowNull: false,
+			unique: true,
+		},
+		conclusionDate: {
+			type: DataTypes.DATEONLY,
+			allowNull: true,
+		},
+		subject: {
+			type: DataTypes.STRING,
+			allowNull: true,
+		},
+		region: {
+			type: DataTypes.STRING,
+			allowNull: true,
+		},
+		result: {
+			type: DataTypes.TEXT,
+			allowNull: true,
+		},
+		developer: {
+			type: DataTypes.TEXT,
+			allowNull: true,
+		},
+		preparer: {
+			type: DataTypes.TEXT,
+			allowNull: true,
+		},
+		object: {
+			type: DataTypes.TEXT,
+			allowNull: true,
+		},
+		rawData: {
+			type: DataTypes.TEXT,
+			allowNull: false,
+		},
+		firstSeenAt: {
+			type: DataTypes.DATE,
+			allowNull: false,
+			defaultValue: DataTypes.NOW,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'leads',
+		timestamps: true,
+	}
+);
@@ -0,0 +1,60 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+interface ILeadAssignmentAttributes {
+	id: number;
+	organizationId: number;
+	conclusionNumber: string;
+	// Участник команды, за которым закреплен лид
+	assigneeId: number;
+	assignedBy: number;
+	createdAt?: Date;
+	updatedAt?: Date;
+}
+
+interface ILeadAssignmentCreationAttributes
+	extends Optional<ILeadAssignmentAttributes, 'id'> {}
+
+export class LeadAssignment
+	extends Model<ILeadAssignmentAttributes, ILeadAssignmentCreationAttributes>
+	implements ILeadAssignmentAttributes
+{
+	public id!: number;
+	public organizationId!: number;
+	public conclusionNumber!: string;
+	public assigneeId!: number;
+	public assignedBy!: number;
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+LeadAssignment.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		organizationId: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+		},
+		conclusionNumber: {
+			type: DataTypes.STRING,
+			allowNull: false,
+		},
+		assigneeId: {
+			type: DataTypes.BIGINT,
+			allowNull: false,
+		},
+		assignedBy: {
+			type: DataTypes.BIGINT,
+			allowNull: false,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'lead_assignments',
+		timestamps: true,
+	}
+);
@@ -0,0 +1,56 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+// in_progress — в работе, not_interested — не интересно, contacted — связались, deal — сделка
+export type LeadStatusValue = 'in_progress' | 'not_interested' | 'contacted' | 'deal';
+
+interface ILeadStatusAttributes {
+	id: number;
+	userId: number;
+	conclusionNumber: string;
+	status: LeadStatusValue;
+	createdAt?: Date;
+	updatedAt?: Date;
+}
+
+interface ILeadStatusCreationAttributes
+	extends Optional<ILeadStatusAttributes, 'id'> {}
+
+export class LeadStatus
+	extends Model<ILeadStatusAttributes, ILeadStatusCreationAttributes>
+	implements ILeadStatusAttributes
+{
+	public id!: number;
+	public userId!: number;
+	public conclusionNumber!: string;
+	public status!: LeadStatusValue;
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+LeadStatus.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		userId: {
+			type: DataTypes.BIGINT,
+			allowNull: false,
+		},
+		conclusionNumber: {
+			type: DataTypes.STRING,
+			allowNull: false,
+		},
+		status: {
+			type: DataTypes.STRING(16),
+			allowNull: false,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'lead_statuses',
+		timestamps: true,
+	}
+);
@@ -0,0 +1,54 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+interface IOrganizationAttributes {
+	id: number;
+	name: string;
+	// Подписки команды в формате IUserConfig (JSON)
+	configData: string;
+	createdBy: number | null;
+	createdAt?: Date;
+	updatedAt?: Date;
+}
+
+interface IOrganizationCreationAttributes
+	extends Optional<IOrganizationAttributes, 'id' | 'createdBy'> {}
+
+export class Organization
+	extends Model<IOrganizationAttributes, IOrganizationCreationAttributes>
+	implements IOrganizationAttributes
+{
+	public id!: number;
+	public name!: string;
+	public configData!: string;
+	public createdBy!: number | null;
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+Organization.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		name: {
+			type: DataTypes.STRING,
+			allowNull: false,
+		},
+		configData: {
+			type: DataTypes.TEXT,
+			allowNull: false,
+		},
+		createdBy: {
+			type: DataTypes.BIGINT,
+			allowNull: true,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'organizations',
+		timestamps: true,
+	}
+);
@@ -0,0 +1,58 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+// lead — руководитель команды (настраивает подписки и назначает лиды), member — участник
+export type OrganizationRole = 'lead' | 'member';
+
+interface IOrganizationMemberAttributes {
+	id: number;
+	organizationId: number;
+	userId: number;
+	role: OrganizationRole;
+	createdAt?: Date;
+	updatedAt?: Date;
+}
+
+interface IOrganizationMemberCreationAttributes
+	extends Optional<IOrganizationMemberAttributes, 'id' | 'role'> {}
+
+export class OrganizationMember
+	extends Model<IOrganizationMemberAttributes, IOrganizationMemberCreationAttributes>
+	implements IOrganizationMemberAttributes
+{
+	public id!: number;
+	public organizationId!: number;
+	public userId!: number;
+	public role!: OrganizationRole;
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+OrganizationMember.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		organizationId: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+		},
+		userId: {
+			type: DataTypes.BIGINT,
+			allowNull: false,
+			unique: true,
+		},
+		role: {
+			type: DataTypes.STRING(16),
+			allowNull: false,
+			defaultValue: 'member',
+		},
+	},
+	{
+		sequelize,
+		tableName: 'organization_members',
+		timestamps: true,
+	}
+);
@@ -0,0 +1,112 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+// sending — сообщение захвачено воркером одного из экземпляров и отправляется
+export type OutboundMessageStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+interface IOutboundMessageAttributes {
+	id: number;
+	chatId: number;
+	text: string;
+	conclusionNumber: string | null;
+	// JSON с reply_markup (inline-кнопки), если они нужны
+	replyMarkup: string | null;
+	status: OutboundMessageStatus;
+	attempts: number;
+	nextAttemptAt: Date;
+	lastError: string | null;
+	sentAt: Date | null;
+	// Метка прохода воркера, захватившего сообщение, и срок захвата
+	claimToken: string | null;
+	claimedUntil: Date | null;
+	createdAt?: Date;
+	updatedAt?: Date;
+}
+
+interface IOutboundMessageCreationAttributes
+	extends Optional<
+		IOutboundMessageAttributes,
+		'id' | 'conclusionNumber' | 'replyMarkup' | 'status' | 'attempts' | 'nextAttemptAt' | 'lastError' | 'sentAt' | 'claimToken' | 'claimedUntil'
+	> {}
+
+export class OutboundMessage
+	extends Model<IOutboundMessageAttributes, IOutboundMessageCreationAttributes>
+	implements IOutboundMessageAttributes
+{
+	public id!: number;
+	public chatId!: number;
+	public text!: string;
+	public conclusionNumber!: string | null;
+	public replyMarkup!: string | null;
+	public status!: OutboundMessageStatus;
+	public attempts!: number;
+	public nextAttemptAt!: Date;
+	public lastError!: string | null;
+	public sentAt!: Date | null;
+	public claimToken!: string | null;
+	public claimedUntil!: Date | null;
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+OutboundMessage.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		chatId: {
+			type: DataTypes.BIGINT,
+			allowNull: false,
+		},
+		text: {
+			type: DataTypes.TEXT,
+			allowNull: false,
+		},
+		conclusionNumber: {
+			type: DataTypes.STRING,
+			allowNull: true,
+		},
+		replyMarkup: {
+			type: DataTypes.TEXT,
+			allowNull: true,
+		},
+		status: {
+			type: DataTypes.STRING(16),
+			allowNull: false,
+			defaultValue: 'pending',
+		},
+		attempts: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+			defaultValue: 0,
+		},
+		nextAttemptAt: {
+			type: DataTypes.DATE,
+			allowNull: false,
+			defaultValue: DataTypes.NOW,
+		},
+		lastError: {
+			type: DataTypes.TEXT,
+			allowNull: true,
+		},
+		sentAt: {
+			type: DataTypes.DATE,
+			allowNull: true,
+		},
+		claimToken: {
+			type: DataTypes.STRING(32),
+			allowNull: true,
+		},
+		claimedUntil: {
+			type: DataTypes.DATE,
+			allowNull: true,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'outbound_messages',
+		timestamps: true,
+	}
+);
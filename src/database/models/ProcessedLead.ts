@@ -1,14 +1,23 @@
 import { DataTypes, Model, Optional } from 'sequelize';
+import { LeadConstructionType, LeadObjectType } from '../../types/config.types';
 import { sequelize } from '../index';
 
 interface IProcessedLeadAttributes {
 	id: number;
 	conclusionNumber: string;
 	processedMessage: string;
+	// JSON со структурированными данными лида (ILeadExtraction)
+	extractedData: string | null;
+	// Версия промпта, по которой получено сообщение (0 — встроенный промпт)
+	promptVersion: number | null;
+	// Классификация лида (см. ILeadClassification)
+	objectType: LeadObjectType | null;
+	constructionType: LeadConstructionType | null;
+	score: number | null;
 }
 
 interface IProcessedLeadCreationAttributes
-	extends Optional<IProcessedLeadAttributes, 'id'> {}
+	extends Optional<IProcessedLeadAttributes, 'id' | 'extractedData' | 'promptVersion' | 'objectType' | 'constructionType' | 'score'> {}
 
 export class ProcessedLead
 	extends Model<IProcessedLeadAttributes, IProcessedLeadCreationAttributes>
@@ -17,6 +26,11 @@ export class ProcessedLead
 	public id!: number;
 	public conclusionNumber!: string;
 	public processedMessage!: string;
+	public extractedData!: string | null;
+	public promptVersion!: number | null;
+	public objectType!: LeadObjectType | null;
+	public constructionType!: LeadConstructionType | null;
+	public score!: number | null;
 }
 
 ProcessedLead.init(
@@ -35,6 +49,26 @@ ProcessedLead.init(
 			type: DataTypes.TEXT,
 			allowNull: false,
 		},
+		extractedData: {
+			type: DataTypes.TEXT,
+			allowNull: true,
+		},
+		promptVersion: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: true,
+		},
+		objectType: {
+			type: DataTypes.STRING(32),
+			allowNull: true,
+		},
+		constructionType: {
+			type: DataTypes.STRING(32),
+			allowNull: true,
+		},
+		score: {
+			type: DataTypes.TINYINT.UNSIGNED,
+			allowNull: true,
+		},
 	},
 	{
 		sequelize,
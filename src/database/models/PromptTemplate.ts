@@ -0,0 +1,53 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+interface IPromptTemplateAttributes {
+	id: number;
+	// Номер версии; действующей считается последняя
+	version: number;
+	content: string;
+	createdBy: number | null;
+	createdAt?: Date;
+}
+
+interface IPromptTemplateCreationAttributes
+	extends Optional<IPromptTemplateAttributes, 'id' | 'createdBy'> {}
+
+export class PromptTemplate
+	extends Model<IPromptTemplateAttributes, IPromptTemplateCreationAttributes>
+	implements IPromptTemplateAttributes
+{
+	public id!: number;
+	public version!: number;
+	public content!: string;
+	public createdBy!: number | null;
+	public readonly createdAt!: Date;
+}
+
+PromptTemplate.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		version: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+			unique: true,
+		},
+		content: {
+			type: DataTypes.TEXT,
+			allowNull: false,
+		},
+		createdBy: {
+			type: DataTypes.BIGINT,
+			allowNull: true,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'prompt_templates',
+		timestamps: true,
+	}
+);
@@ -0,0 +1,50 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+interface IRegionWatermarkAttributes {
+	id: number;
+	region: string;
+	lastProcessedDate: string;
+	lastRunAt: Date;
+}
+
+interface IRegionWatermarkCreationAttributes
+	extends Optional<IRegionWatermarkAttributes, 'id'> {}
+
+export class RegionWatermark
+	extends Model<IRegionWatermarkAttributes, IRegionWatermarkCreationAttributes>
+	implements IRegionWatermarkAttributes
+{
+	public id!: number;
+	public region!: string;
+	public lastProcessedDate!: string;
+	public lastRunAt!: Date;
+}
+
+RegionWatermark.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		region: {
+			type: DataTypes.STRING,
+			allowNull: false,
+			unique: true,
+		},
+		lastProcessedDate: {
+			type: DataTypes.DATEONLY,
+			allowNull: false,
+		},
+		lastRunAt: {
+			type: DataTypes.DATE,
+			allowNull: false,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'region_watermarks',
+		timestamps: true,
+	}
+);
@@ -0,0 +1,55 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+interface ISchedulerLockAttributes {
+	name: string;
+	ownerId: string;
+	acquiredAt: Date;
+	expiresAt: Date;
+	heartbeatAt: Date;
+}
+
+interface ISchedulerLockCreationAttributes
+	extends Optional<ISchedulerLockAttributes, 'heartbeatAt'> {}
+
+export class SchedulerLock
+	extends Model<ISchedulerLockAttributes, ISchedulerLockCreationAttributes>
+	implements ISchedulerLockAttributes
+{
+	public name!: string;
+	public ownerId!: string;
+	public acquiredAt!: Date;
+	public expiresAt!: Date;
+	public heartbeatAt!: Date;
+}
+
+SchedulerLock.init(
+	{
+		name: {
+			type: DataTypes.STRING(64),
+			primaryKey: true,
+		},
+		ownerId: {
+			type: DataTypes.STRING,
+			allowNull: false,
+		},
+		acquiredAt: {
+			type: DataTypes.DATE,
+			allowNull: false,
+		},
+		expiresAt: {
+			type: DataTypes.DATE,
+			allowNull: false,
+		},
+		heartbeatAt: {
+			type: DataTypes.DATE,
+			allowNull: false,
+			defaultValue: DataTypes.NOW,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'scheduler_locks',
+		timestamps: true,
+	}
+);
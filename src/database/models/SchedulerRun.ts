@@ -0,0 +1,120 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+// running — выполняется, success — без ошибок, partial — с ошибками в части регионов, failed — задача упала
+export type SchedulerRunStatus = 'running' | 'success' | 'partial' | 'failed';
+
+interface ISchedulerRunAttributes {
+	id: number;
+	startedAt: Date;
+	finishedAt: Date | null;
+	durationMs: number | null;
+	status: SchedulerRunStatus;
+	totalRegions: number;
+	totalRecords: number;
+	processedRecords: number;
+	skippedRecords: number;
+	errorRecords: number;
+	// JSON-массив результатов по регионам (ProcessingResult)
+	regionResults: string | null;
+	errorMessage: string | null;
+}
+
+interface ISchedulerRunCreationAttributes
+	extends Optional<
+		ISchedulerRunAttributes,
+		| 'id'
+		| 'finishedAt'
+		| 'durationMs'
+		| 'status'
+		| 'totalRegions'
+		| 'totalRecords'
+		| 'processedRecords'
+		| 'skippedRecords'
+		| 'errorRecords'
+		| 'regionResults'
+		| 'errorMessage'
+	> {}
+
+export class SchedulerRun
+	extends Model<ISchedulerRunAttributes, ISchedulerRunCreationAttributes>
+	implements ISchedulerRunAttributes
+{
+	public id!: number;
+	public startedAt!: Date;
+	public finishedAt!: Date | null;
+	public durationMs!: number | null;
+	public status!: SchedulerRunStatus;
+	public totalRegions!: number;
+	public totalRecords!: number;
+	public processedRecords!: number;
+	public skippedRecords!: number;
+	public errorRecords!: number;
+	public regionResults!: string | null;
+	public errorMessage!: string | null;
+}
+
+SchedulerRun.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		startedAt: {
+			type: DataTypes.DATE,
+			allowNull: false,
+		},
+		finishedAt: {
+			type: DataTypes.DATE,
+			allowNull: true,
+		},
+		durationMs: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: true,
+		},
+		status: {
+			type: DataTypes.STRING(16),
+			allowNull: false,
+			defaultValue: 'running',
+		},
+		totalRegions: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+			defaultValue: 0,
+		},
+		totalRecords: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+			defaultValue: 0,
+		},
+		processedRecords: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+			defaultValue: 0,
+		},
+		skippedRecords: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+			defaultValue: 0,
+		},
+		errorRecords: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+			defaultValue: 0,
+		},
+		regionResults: {
+			type: DataTypes.TEXT('medium'),
+			allowNull: true,
+		},
+		errorMessage: {
+			type: DataTypes.TEXT,
+			allowNull: true,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'scheduler_runs',
+		timestamps: true,
+	}
+);
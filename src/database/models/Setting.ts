@@ -0,0 +1,52 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+interface ISettingAttributes {
+	id: number;
+	key: string;
+	value: string;
+	updatedBy: number | null;
+	updatedAt?: Date;
+}
+
+interface ISettingCreationAttributes
+	extends Optional<ISettingAttributes, 'id' | 'updatedBy'> {}
+
+export class Setting
+	extends Model<ISettingAttributes, ISettingCreationAttributes>
+	implements ISettingAttributes
+{
+	public id!: number;
+	public key!: string;
+	public value!: string;
+	public updatedBy!: number | null;
+	public updatedAt!: Date;
+}
+
+Setting.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		key: {
+			type: DataTypes.STRING(64),
+			allowNull: false,
+			unique: true,
+		},
+		value: {
+			type: DataTypes.TEXT,
+			allowNull: false,
+		},
+		updatedBy: {
+			type: DataTypes.BIGINT,
+			allowNull: true,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'settings',
+		timestamps: true,
+	}
+);
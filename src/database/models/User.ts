@@ -1,13 +1,18 @@
 import { DataTypes, Model, Optional } from 'sequelize';
 import { sequelize } from '../index';
 
+// active — получает рассылку, blocked — заблокировал бота или удалил чат
+export type UserStatus = 'active' | 'blocked';
+
 interface IUserAttributes {
 	id: number;
 	userId: number | null
 	username: string | null;
+	status: UserStatus;
+	blockedAt: Date | null;
 }
 
-interface IUserCreationAttributes extends Optional<IUserAttributes, 'id'> {}
+interface IUserCreationAttributes extends Optional<IUserAttributes, 'id' | 'status' | 'blockedAt'> {}
 
 export class User
 	extends Model<IUserAttributes, IUserCreationAttributes>
@@ -16,6 +21,8 @@ export class User
 	public id!: number;
 	public userId!: number;
 	public username!: string | null;
+	public status!: UserStatus;
+	public blockedAt!: Date | null;
 }
 
 User.init(
@@ -34,10 +41,19 @@ User.init(
 			type: DataTypes.STRING,
 			allowNull: true,
 		},
+		status: {
+			type: DataTypes.STRING(16),
+			allowNull: false,
+			defaultValue: 'active',
+		},
+		blockedAt: {
+			type: DataTypes.DATE,
+			allowNull: true,
+		},
 	},
 	{
 		sequelize,
 		tableName: 'users',
 		timestamps: true,
 	}
-);
\ No newline at end of file
+);
@@ -0,0 +1,70 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+interface IWebhookAttributes {
+	id: number;
+	// Пользователь Telegram, зарегистрировавший вебхук
+	ownerId: number;
+	url: string;
+	// Общий секрет для подписи HMAC-SHA256
+	secret: string;
+	// Все новые лиды, а не только доставленные владельцу (только для администраторов)
+	allLeads: boolean;
+	isActive: boolean;
+	createdAt?: Date;
+	updatedAt?: Date;
+}
+
+interface IWebhookCreationAttributes
+	extends Optional<IWebhookAttributes, 'id' | 'allLeads' | 'isActive'> {}
+
+export class Webhook
+	extends Model<IWebhookAttributes, IWebhookCreationAttributes>
+	implements IWebhookAttributes
+{
+	public id!: number;
+	public ownerId!: number;
+	public url!: string;
+	public secret!: string;
+	public allLeads!: boolean;
+	public isActive!: boolean;
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+Webhook.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		ownerId: {
+			type: DataTypes.BIGINT,
+			allowNull: false,
+		},
+		url: {
+			type: DataTypes.STRING(2048),
+			allowNull: false,
+		},
+		secret: {
+			type: DataTypes.STRING(128),
+			allowNull: false,
+		},
+		allLeads: {
+			type: DataTypes.BOOLEAN,
+			allowNull: false,
+			defaultValue: false,
+		},
+		isActive: {
+			type: DataTypes.BOOLEAN,
+			allowNull: false,
+			defaultValue: true,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'webhooks',
+		timestamps: true,
+	}
+);
@@ -0,0 +1,119 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../index';
+
+// sending — доставка захвачена воркером одного из экземпляров и отправляется
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+interface IWebhookDeliveryAttributes {
+	id: number;
+	webhookId: number;
+	// lead.created | webhook.test
+	event: string;
+	conclusionNumber: string | null;
+	// Тело запроса (JSON), подписывается при каждой отправке
+	payload: string;
+	status: WebhookDeliveryStatus;
+	attempts: number;
+	nextAttemptAt: Date;
+	responseStatus: number | null;
+	lastError: string | null;
+	sentAt: Date | null;
+	// Метка прохода воркера, захватившего доставку, и срок захвата
+	claimToken: string | null;
+	claimedUntil: Date | null;
+	createdAt?: Date;
+	updatedAt?: Date;
+}
+
+interface IWebhookDeliveryCreationAttributes
+	extends Optional<
+		IWebhookDeliveryAttributes,
+		'id' | 'conclusionNumber' | 'status' | 'attempts' | 'nextAttemptAt' | 'responseStatus' | 'lastError' | 'sentAt' | 'claimToken' | 'claimedUntil'
+	> {}
+
+export class WebhookDelivery
+	extends Model<IWebhookDeliveryAttributes, IWebhookDeliveryCreationAttributes>
+	implements IWebhookDeliveryAttributes
+{
+	public id!: number;
+	public webhookId!: number;
+	public event!: string;
+	public conclusionNumber!: string | null;
+	public payload!: string;
+	public status!: WebhookDeliveryStatus;
+	public attempts!: number;
+	public nextAttemptAt!: Date;
+	public responseStatus!: number | null;
+	public lastError!: string | null;
+	public sentAt!: Date | null;
+	public claimToken!: string | null;
+	public claimedUntil!: Date | null;
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+WebhookDelivery.init(
+	{
+		id: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			autoIncrement: true,
+			primaryKey: true,
+		},
+		webhookId: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+		},
+		event: {
+			type: DataTypes.STRING(32),
+			allowNull: false,
+		},
+		conclusionNumber: {
+			type: DataTypes.STRING,
+			allowNull: true,
+		},
+		payload: {
+			type: DataTypes.TEXT('medium'),
+			allowNull: false,
+		},
+		status: {
+			type: DataTypes.STRING(16),
+			allowNull: false,
+			defaultValue: 'pending',
+		},
+		attempts: {
+			type: DataTypes.INTEGER.UNSIGNED,
+			allowNull: false,
+			defaultValue: 0,
+		},
+		nextAttemptAt: {
+			type: DataTypes.DATE,
+			allowNull: false,
+			defaultValue: DataTypes.NOW,
+		},
+		responseStatus: {
+			type: DataTypes.SMALLINT.UNSIGNED,
+			allowNull: true,
+		},
+		lastError: {
+			type: DataTypes.TEXT,
+			allowNull: true,
+		},
+		sentAt: {
+			type: DataTypes.DATE,
+			allowNull: true,
+		},
+		claimToken: {
+			type: DataTypes.STRING(32),
+			allowNull: true,
+		},
+		claimedUntil: {
+			type: DataTypes.DATE,
+			allowNull: true,
+		},
+	},
+	{
+		sequelize,
+		tableName: 'webhook_deliveries',
+		timestamps: true,
+	}
+);
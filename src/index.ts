@@ -1,15 +1,26 @@
 import { sequelize } from './database';
 import { config } from './config';
 import { app } from './app';
-import './bot';
+import { bot } from './bot';
 import './scheduler';
 import { logger } from './logger';
+import { startOutboxWorker } from './services/outboxService';
+import { startSettingsRefresh } from './services/settingsService';
+import { startWebhookWorker } from './services/webhookService';
 
 (async () => {
 	try {
 		// Подключаемся к БД
 		await sequelize.authenticate();
 		logger.info('Подключено к БД');
+		
+		// Настройки из БД (расписание, таймауты); при изменении задача cron перерегистрируется
+		await startSettingsRefresh();
+		
+		// Воркер доставляет сообщения, накопившиеся в очереди, в том числе до перезапуска
+		startOutboxWorker((chatId, text, options) => bot.sendMessage(chatId, text, options));
+		// Повторная доставка вебхуков, не отправленных до перезапуска
+		startWebhookWorker();
 
 		app.listen(config.PORT || 5000, () => {
 			logger.info(`Сервер запущен на порту ${config.PORT}`);
@@ -0,0 +1,44 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('region_watermarks', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      // Значение региона в формате подписки ("Название - код")
+      region: {
+        type: Sequelize.STRING,
+        allowNull: false,
+        unique: true,
+      },
+      // Последняя дата, данные за которую успешно обработаны
+      lastProcessedDate: {
+        type: Sequelize.DATEONLY,
+        allowNull: false,
+      },
+      // Время последнего успешного запуска по региону
+      lastRunAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('region_watermarks');
+  },
+};
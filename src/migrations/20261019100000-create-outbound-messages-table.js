@@ -0,0 +1,74 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('outbound_messages', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      chatId: {
+        type: Sequelize.BIGINT,
+        allowNull: false,
+      },
+      text: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      // Номер заключения; после доставки по нему создается запись в parsed_data
+      conclusionNumber: {
+        type: Sequelize.STRING,
+        allowNull: true,
+      },
+      // pending | sent | failed
+      status: {
+        type: Sequelize.STRING(16),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      attempts: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      nextAttemptAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      lastError: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      sentAt: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+
+    // Выборка очереди воркером
+    await queryInterface.addIndex('outbound_messages', ['status', 'id'], {
+      name: 'idx_outbound_messages_status_id',
+    });
+    // Дедупликация ожидающих отправки лидов
+    await queryInterface.addIndex('outbound_messages', ['conclusionNumber', 'chatId'], {
+      name: 'idx_outbound_messages_conclusion_chat',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('outbound_messages');
+  },
+};
@@ -0,0 +1,21 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // active — получает рассылку, blocked — заблокировал бота или удалил чат
+    await queryInterface.addColumn('users', 'status', {
+      type: Sequelize.STRING(16),
+      allowNull: false,
+      defaultValue: 'active',
+    });
+    await queryInterface.addColumn('users', 'blockedAt', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('users', 'blockedAt');
+    await queryInterface.removeColumn('users', 'status');
+  },
+};
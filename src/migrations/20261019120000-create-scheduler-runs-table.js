@@ -0,0 +1,84 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('scheduler_runs', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      startedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      finishedAt: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      durationMs: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: true,
+      },
+      // running | success | partial | failed
+      status: {
+        type: Sequelize.STRING(16),
+        allowNull: false,
+        defaultValue: 'running',
+      },
+      totalRegions: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      totalRecords: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      processedRecords: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      skippedRecords: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      errorRecords: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      // JSON с результатами по каждому региону
+      regionResults: {
+        type: Sequelize.TEXT('medium'),
+        allowNull: true,
+      },
+      errorMessage: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+
+    await queryInterface.addIndex('scheduler_runs', ['startedAt'], {
+      name: 'idx_scheduler_runs_started_at',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('scheduler_runs');
+  },
+};
@@ -0,0 +1,47 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('scheduler_locks', {
+      // Имя блокировки (например, egrz_parse)
+      name: {
+        type: Sequelize.STRING(64),
+        primaryKey: true,
+        allowNull: false,
+      },
+      // Идентификатор процесса-владельца (hostname:pid:random)
+      ownerId: {
+        type: Sequelize.STRING,
+        allowNull: false,
+      },
+      acquiredAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      // После этого момента блокировку может перехватить другой процесс
+      expiresAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      heartbeatAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('scheduler_locks');
+  },
+};
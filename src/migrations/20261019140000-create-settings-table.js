@@ -0,0 +1,44 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('settings', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      // Имя настройки (например, CRON_SCHEDULE)
+      key: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+        unique: true,
+      },
+      // Значение в виде строки, валидируется схемой zod при загрузке
+      value: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      // Telegram ID администратора, изменившего настройку
+      updatedBy: {
+        type: Sequelize.BIGINT,
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('settings');
+  },
+};
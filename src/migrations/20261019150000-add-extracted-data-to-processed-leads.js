@@ -0,0 +1,15 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // JSON со структурированными данными лида, извлеченными AI
+    await queryInterface.addColumn('processed_leads', 'extractedData', {
+      type: Sequelize.TEXT,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('processed_leads', 'extractedData');
+  },
+};
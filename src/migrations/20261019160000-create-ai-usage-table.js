@@ -0,0 +1,70 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('ai_usage', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      // Номер заключения экспертизы, для которого выполнялся запрос
+      conclusionNumber: {
+        type: Sequelize.STRING,
+        allowNull: true,
+      },
+      region: {
+        type: Sequelize.STRING,
+        allowNull: true,
+      },
+      provider: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+      },
+      model: {
+        type: Sequelize.STRING(128),
+        allowNull: false,
+      },
+      promptTokens: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      completionTokens: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      // Стоимость запроса в USD
+      costUsd: {
+        type: Sequelize.DECIMAL(12, 6),
+        allowNull: false,
+        defaultValue: 0,
+      },
+      latencyMs: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+
+    await queryInterface.addIndex('ai_usage', ['createdAt'], {
+      name: 'idx_ai_usage_created_at',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('ai_usage');
+  },
+};
@@ -0,0 +1,50 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('prompt_templates', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      // Номер версии; действующей считается последняя
+      version: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        unique: true,
+      },
+      content: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      // Telegram ID администратора, создавшего версию
+      createdBy: {
+        type: Sequelize.BIGINT,
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+
+    // Версия промпта, по которой получено сообщение (0 — встроенный промпт, NULL — без AI)
+    await queryInterface.addColumn('processed_leads', 'promptVersion', {
+      type: Sequelize.INTEGER.UNSIGNED,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('processed_leads', 'promptVersion');
+    await queryInterface.dropTable('prompt_templates');
+  },
+};
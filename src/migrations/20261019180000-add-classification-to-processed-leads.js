@@ -0,0 +1,27 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // residential | industrial | social | infrastructure | other
+    await queryInterface.addColumn('processed_leads', 'objectType', {
+      type: Sequelize.STRING(32),
+      allowNull: true,
+    });
+    // new | reconstruction
+    await queryInterface.addColumn('processed_leads', 'constructionType', {
+      type: Sequelize.STRING(32),
+      allowNull: true,
+    });
+    // Оценка привлекательности лида от AI, 0–100
+    await queryInterface.addColumn('processed_leads', 'score', {
+      type: Sequelize.TINYINT.UNSIGNED,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('processed_leads', 'score');
+    await queryInterface.removeColumn('processed_leads', 'constructionType');
+    await queryInterface.removeColumn('processed_leads', 'objectType');
+  },
+};
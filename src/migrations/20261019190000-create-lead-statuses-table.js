@@ -0,0 +1,58 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('lead_statuses', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      userId: {
+        type: Sequelize.BIGINT,
+        allowNull: false,
+      },
+      conclusionNumber: {
+        type: Sequelize.STRING,
+        allowNull: false,
+      },
+      // in_progress | not_interested | contacted | deal
+      status: {
+        type: Sequelize.STRING(16),
+        allowNull: false,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+
+    // Один статус на лид у каждого пользователя
+    await queryInterface.addIndex('lead_statuses', ['userId', 'conclusionNumber'], {
+      name: 'idx_lead_statuses_user_conclusion',
+      unique: true,
+    });
+    // Выборка воронки пользователя
+    await queryInterface.addIndex('lead_statuses', ['userId', 'status', 'updatedAt'], {
+      name: 'idx_lead_statuses_user_status',
+    });
+
+    // Inline-кнопки для сообщений из очереди
+    await queryInterface.addColumn('outbound_messages', 'replyMarkup', {
+      type: Sequelize.TEXT,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('outbound_messages', 'replyMarkup');
+    await queryInterface.dropTable('lead_statuses');
+  },
+};
@@ -0,0 +1,80 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('leads', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      conclusionNumber: {
+        type: Sequelize.STRING,
+        allowNull: false,
+        unique: true,
+      },
+      conclusionDate: {
+        type: Sequelize.DATEONLY,
+        allowNull: true,
+      },
+      // Субъект РФ из выгрузки ЕГРЗ как есть
+      subject: {
+        type: Sequelize.STRING,
+        allowNull: true,
+      },
+      // Регион в формате подписки ("Название - код")
+      region: {
+        type: Sequelize.STRING,
+        allowNull: true,
+      },
+      result: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      developer: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      preparer: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      object: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      // Исходная строка CSV целиком (JSON)
+      rawData: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      firstSeenAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+
+    await queryInterface.addIndex('leads', ['conclusionDate'], {
+      name: 'idx_leads_conclusion_date',
+    });
+    await queryInterface.addIndex('leads', ['region', 'conclusionDate'], {
+      name: 'idx_leads_region_date',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('leads');
+  },
+};
@@ -0,0 +1,123 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('organizations', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      name: {
+        type: Sequelize.STRING,
+        allowNull: false,
+      },
+      // Подписки команды: регионы, фильтры, категории (JSON)
+      configData: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      createdBy: {
+        type: Sequelize.BIGINT,
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+
+    await queryInterface.createTable('organization_members', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      organizationId: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+      },
+      // Пользователь состоит не более чем в одной команде
+      userId: {
+        type: Sequelize.BIGINT,
+        allowNull: false,
+        unique: true,
+      },
+      // lead | member
+      role: {
+        type: Sequelize.STRING(16),
+        allowNull: false,
+        defaultValue: 'member',
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+
+    await queryInterface.addIndex('organization_members', ['organizationId'], {
+      name: 'idx_organization_members_organization',
+    });
+
+    await queryInterface.createTable('lead_assignments', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      organizationId: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+      },
+      conclusionNumber: {
+        type: Sequelize.STRING,
+        allowNull: false,
+      },
+      assigneeId: {
+        type: Sequelize.BIGINT,
+        allowNull: false,
+      },
+      assignedBy: {
+        type: Sequelize.BIGINT,
+        allowNull: false,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+
+    // Один ответственный на лид внутри команды
+    await queryInterface.addIndex('lead_assignments', ['organizationId', 'conclusionNumber'], {
+      name: 'idx_lead_assignments_organization_conclusion',
+      unique: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('lead_assignments');
+    await queryInterface.dropTable('organization_members');
+    await queryInterface.dropTable('organizations');
+  },
+};
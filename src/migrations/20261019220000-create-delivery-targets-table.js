@@ -0,0 +1,58 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('delivery_targets', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      // ID группы или канала в Telegram (отрицательный)
+      chatId: {
+        type: Sequelize.BIGINT,
+        allowNull: false,
+        unique: true,
+      },
+      // group | supergroup | channel
+      chatType: {
+        type: Sequelize.STRING(16),
+        allowNull: false,
+      },
+      title: {
+        type: Sequelize.STRING,
+        allowNull: true,
+      },
+      // Регионы и фильтры чата (JSON)
+      configData: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      // active | blocked
+      status: {
+        type: Sequelize.STRING(16),
+        allowNull: false,
+        defaultValue: 'active',
+      },
+      addedBy: {
+        type: Sequelize.BIGINT,
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('delivery_targets');
+  },
+};
@@ -0,0 +1,131 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('webhooks', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      ownerId: {
+        type: Sequelize.BIGINT,
+        allowNull: false,
+      },
+      url: {
+        type: Sequelize.STRING(2048),
+        allowNull: false,
+      },
+      secret: {
+        type: Sequelize.STRING(128),
+        allowNull: false,
+      },
+      // Все новые лиды (только для администраторов), иначе — доставленные владельцу
+      allLeads: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      isActive: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+
+    await queryInterface.addIndex('webhooks', ['ownerId'], {
+      name: 'idx_webhooks_owner',
+    });
+
+    await queryInterface.createTable('webhook_deliveries', {
+      id: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      webhookId: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+      },
+      // lead.created | webhook.test
+      event: {
+        type: Sequelize.STRING(32),
+        allowNull: false,
+      },
+      conclusionNumber: {
+        type: Sequelize.STRING,
+        allowNull: true,
+      },
+      payload: {
+        type: Sequelize.TEXT('medium'),
+        allowNull: false,
+      },
+      // pending | sent | failed
+      status: {
+        type: Sequelize.STRING(16),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      attempts: {
+        type: Sequelize.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      nextAttemptAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      // HTTP-статус последнего ответа получателя
+      responseStatus: {
+        type: Sequelize.SMALLINT.UNSIGNED,
+        allowNull: true,
+      },
+      lastError: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      sentAt: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.fn('NOW'),
+      },
+    });
+
+    // Выборка очереди воркером
+    await queryInterface.addIndex('webhook_deliveries', ['status', 'nextAttemptAt'], {
+      name: 'idx_webhook_deliveries_status_next',
+    });
+    // Лид отправляется в каждый вебхук не более одного раза
+    await queryInterface.addIndex('webhook_deliveries', ['webhookId', 'conclusionNumber'], {
+      name: 'idx_webhook_deliveries_webhook_conclusion',
+      unique: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('webhook_deliveries');
+    await queryInterface.dropTable('webhooks');
+  },
+};
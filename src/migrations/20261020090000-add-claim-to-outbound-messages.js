@@ -0,0 +1,21 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Воркер захватывает сообщение перед отправкой, чтобы другой экземпляр не отправил его повторно
+    await queryInterface.addColumn('outbound_messages', 'claimToken', {
+      type: Sequelize.STRING(32),
+      allowNull: true,
+    });
+    // Захват, не снятый до этого момента (процесс упал), возвращает сообщение в очередь
+    await queryInterface.addColumn('outbound_messages', 'claimedUntil', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('outbound_messages', 'claimedUntil');
+    await queryInterface.removeColumn('outbound_messages', 'claimToken');
+  },
+};
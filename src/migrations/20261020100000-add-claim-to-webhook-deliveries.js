@@ -0,0 +1,21 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Воркер захватывает доставку перед отправкой, чтобы другой экземпляр не отправил ее повторно
+    await queryInterface.addColumn('webhook_deliveries', 'claimToken', {
+      type: Sequelize.STRING(32),
+      allowNull: true,
+    });
+    // Захват, не снятый до этого момента (процесс упал), возвращает доставку в очередь
+    await queryInterface.addColumn('webhook_deliveries', 'claimedUntil', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('webhook_deliveries', 'claimedUntil');
+    await queryInterface.removeColumn('webhook_deliveries', 'claimToken');
+  },
+};
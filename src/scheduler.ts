@@ -5,13 +5,32 @@ import https from 'https';
 import cron from 'node-cron';
 import { Op } from 'sequelize';
 import { safeSendMessage } from './bot';
+import { config } from './config';
 import { Configuration } from './database/models/Configuration';
+import { Lead } from './database/models/Lead';
 import { ParsedData } from './database/models/ParsedData';
 import { ProcessedLead } from './database/models/ProcessedLead';
 import { logger } from './logger';
-import { processLeadWithAI } from './services/aiService';
+import { ILeadProcessingResult, processLeadWithAI } from './services/aiService';
+import { getDeliveryTargetSubscriptions, isGroupChatId } from './services/deliveryTargetService';
+import { matchesLeadClassification, matchesLeadFilters } from './services/filterService';
+import { ILeadClassification } from './services/leadExtraction';
+import { getRecordSubject, saveLeads, toEgrzRecord } from './services/leadService';
+import { buildLeadStatusKeyboard } from './services/leadStatusService';
+import { getActiveLock, IActiveLock, ILockOptions, LockResult, withLock } from './services/lockService';
+import { enqueueMessage, enqueueMessages, getQueuedDeliveries } from './services/outboxService';
+import { getTeamMemberIds, getTeamSubscriptions, withAssignmentButton } from './services/organizationService';
+import { getActivePrompt } from './services/promptService';
+import { finishSchedulerRun, startSchedulerRun } from './services/schedulerRunService';
+import { getSettings, onSettingsChange } from './services/settingsService';
+import { getSubscriptionConfig, parseUserConfig } from './services/userConfigService';
+import { getInactiveUserIds } from './services/userService';
+import { advanceRegionWatermark, getFetchStartDate, loadRegionWatermarks } from './services/watermarkService';
+import { enqueueLeadWebhooks } from './services/webhookService';
 import { IUserConfig } from './types/config.types';
 import { IEgrzRecord } from './types/egrz.types';
+import { ProcessingResult, RegenerationResult } from './types/scheduler.types';
+import { enumerateDays, getTodayMoscowDate, isValidIsoDate } from './utils/dates';
 
 // =================================================================================
 // ВАЖНО: Настройка для совместимости со старым API egrz.ru
@@ -20,115 +39,268 @@ const httpsAgent = new https.Agent({
 	secureOptions: crypto.constants.SSL_OP_LEGACY_SERVER_CONNECT,
 });
 
-// =================================================================================
-// КОНФИГУРАЦИЯ И КОНСТАНТЫ
-// =================================================================================
-const SCHEDULER_CONFIG = {
-	// Максимальное время выполнения одной задачи (30 минут)
-	MAX_EXECUTION_TIME: 30 * 60 * 1000,
-	// Таймаут для HTTP запросов (30 секунд)
-	HTTP_TIMEOUT: 30 * 1000,
-	// Максимальное количество записей с API за раз
-	MAX_RECORDS_PER_REQUEST: 100,
-	// Максимальное количество повторных попыток
-	MAX_RETRIES: 3,
-	// Задержка между повторными попытками (мс)
-	RETRY_DELAY: 5000,
-};
-
 // =================================================================================
 // ИНТЕРФЕЙСЫ ДЛЯ ТИПИЗАЦИИ
 // =================================================================================
 interface RegionUserMap {
 	region: string;
 	userIds: number[];
+	// Конфигурации подписчиков: фильтры по ключевым словам, категории и минимальная оценка
+	userConfigs: Map<number, IUserConfig>;
 }
 
-interface ProcessingResult {
-	region: string;
-	totalRecords: number;
-	processedRecords: number;
-	skippedRecords: number;
-	errorRecords: number;
+interface ProcessedMessage {
+	message: string;
+	classification: ILeadClassification | null;
 }
 
+interface EgrzFetchResult {
+	records: IEgrzRecord[];
+	pages: number;
+	pageLimitReached: boolean;
+}
+
+interface UserDeliveryResult {
+	sentCount: number;
+	skippedCount: number;
+}
+
+export type BackfillProgressCallback = (day: string, dayIndex: number, totalDays: number, result: ProcessingResult) => Promise<void> | void;
+
+export type RegenerationProgressCallback = (day: string, dayIndex: number, totalDays: number, result: RegenerationResult) => Promise<void> | void;
+
 // =================================================================================
 // ОСНОВНОЙ ПЛАНИРОВЩИК С ЗАЩИТОЙ ОТ БЛОКИРОВОК
 // =================================================================================
-let isTaskRunning = false;
-let taskStartTime: number = 0;
+// Одна блокировка на все операции, рассылающие лиды: защищает от дублей между процессами
+const PARSE_LOCK_NAME = 'egrz_parse';
 
-cron.schedule('*/15 * * * *', async () => {
-	// Проверка блокировки
-	if (isTaskRunning) {
-		const currentTime = Date.now();
-		const executionTime = currentTime - taskStartTime;
-		
-		if (executionTime > SCHEDULER_CONFIG.MAX_EXECUTION_TIME) {
-			logger.error(`[SCHEDULER] КРИТИЧЕСКАЯ ОШИБКА: Задача выполняется более ${SCHEDULER_CONFIG.MAX_EXECUTION_TIME / 60000} минут. Принудительная разблокировка.`);
-			isTaskRunning = false;
-		} else {
-			logger.warn(`[SCHEDULER] Пропуск запуска: предыдущая задача выполняется уже ${Math.round(executionTime / 1000)} секунд.`);
-			return;
-		}
+function getParseLockOptions(): ILockOptions {
+	const settings = getSettings();
+	return {
+		ttlMs: settings.LOCK_TTL,
+		heartbeatMs: settings.LOCK_HEARTBEAT_INTERVAL,
+	};
+}
+
+/**
+ * Возвращает информацию о выполняющейся (в любом процессе) задаче парсинга.
+ */
+export async function getRunningTaskInfo(): Promise<IActiveLock | null> {
+	return getActiveLock(PARSE_LOCK_NAME);
+}
+
+// Выполняет задачу под блокировкой парсинга, ожидая ее освобождения не дольше LOCK_WAIT_TIMEOUT
+function withParseLock<T>(task: (signal: AbortSignal) => Promise<T>): Promise<LockResult<T>> {
+	return withLock(PARSE_LOCK_NAME, {
+		...getParseLockOptions(),
+		waitTimeoutMs: getSettings().LOCK_WAIT_TIMEOUT,
+	}, task);
+}
+
+// Задача планировщика; при изменении расписания в /settings перерегистрируется без перезапуска
+let scheduledTask: cron.ScheduledTask | null = null;
+
+function registerCronTask(expression: string): void {
+	scheduledTask?.stop();
+	scheduledTask = cron.schedule(expression, runScheduledTask);
+	logger.info(`[SCHEDULER] Задача парсинга зарегистрирована с расписанием "${expression}"`);
+}
+
+registerCronTask(getSettings().CRON_SCHEDULE);
+
+onSettingsChange((next, previous) => {
+	if (next.CRON_SCHEDULE !== previous.CRON_SCHEDULE) {
+		registerCronTask(next.CRON_SCHEDULE);
 	}
-	
-	logger.info('[SCHEDULER] ==================== ЗАПУСК ЗАДАЧИ ПАРСИНГА ====================');
-	isTaskRunning = true;
-	taskStartTime = Date.now();
+});
+
+async function runScheduledTask(): Promise<void> {
+	const taskStartTime = Date.now();
 	
 	try {
-		await executeMainTask();
+		const outcome = await withLock(PARSE_LOCK_NAME, getParseLockOptions(), async (signal) => {
+			logger.info('[SCHEDULER] ==================== ЗАПУСК ЗАДАЧИ ПАРСИНГА ====================');
+			
+			const run = await startSchedulerRun();
+			let results: ProcessingResult[] = [];
+			try {
+				results = await executeMainTask(signal);
+				await finishSchedulerRun(run, results);
+			} catch (error) {
+				logger.error('[SCHEDULER] КРИТИЧЕСКАЯ ОШИБКА в глобальной задаче парсинга:', error);
+				await finishSchedulerRun(run, results, error);
+			} finally {
+				const executionTime = Date.now() - taskStartTime;
+				logger.info(`[SCHEDULER] ==================== ЗАДАЧА ЗАВЕРШЕНА (${Math.round(executionTime / 1000)}с) ====================`);
+			}
+		});
+		
+		if (!outcome.acquired) {
+			const activeLock = await getActiveLock(PARSE_LOCK_NAME);
+			const runningFor = activeLock ? `${Math.round((Date.now() - activeLock.acquiredAt.getTime()) / 1000)} секунд` : 'неизвестное время';
+			logger.warn(`[SCHEDULER] Пропуск запуска: задача уже выполняется (${activeLock?.ownerId ?? 'другой процесс'}, ${runningFor}).`);
+		}
 	} catch (error) {
-		logger.error('[SCHEDULER] КРИТИЧЕСКАЯ ОШИБКА в глобальной задаче парсинга:', error);
-	} finally {
-		const executionTime = Date.now() - taskStartTime;
-		logger.info(`[SCHEDULER] ==================== ЗАДАЧА ЗАВЕРШЕНА (${Math.round(executionTime / 1000)}с) ====================`);
-		isTaskRunning = false;
+		logger.error('[SCHEDULER] Ошибка работы с блокировкой планировщика:', error);
 	}
-});
+}
 
 // =================================================================================
 // ОСНОВНАЯ ЛОГИКА ВЫПОЛНЕНИЯ ЗАДАЧИ
 // =================================================================================
-async function executeMainTask(): Promise<void> {
+// signal срабатывает при потере блокировки: задача прерывается между регионами, страницами выгрузки,
+// перед обращением к AI и постановкой лида в очередь
+async function executeMainTask(signal: AbortSignal): Promise<ProcessingResult[]> {
 	// Шаг 1: Сбор конфигураций и подготовка данных
 	const regionUserMaps = await collectRegionUserMaps();
 	if (regionUserMaps.length === 0) {
 		logger.info('[SCHEDULER] Нет активных подписок на регионы. Задача завершена.');
-		return;
+		return [];
 	}
 	
 	logger.info(`[SCHEDULER] Найдено уникальных регионов для обработки: ${regionUserMaps.length}`);
 	
-	// Шаг 2: Получение текущей даты для фильтрации
+	// Шаг 2: Получение текущей даты и водяных знаков регионов
 	const todayMsk = getTodayMoscowDate();
+	const watermarks = await loadRegionWatermarks(regionUserMaps.map(map => map.region));
 	logger.info(`[SCHEDULER] Дата для поиска: ${todayMsk}`);
 	
-	// Шаг 3: Обработка каждого региона
+	// Шаг 3: Обработка регионов (одной выгрузкой на все регионы или запросом на каждый)
+	const results = config.EGRZ_FETCH_MODE === 'bulk'
+		? await processRegionsBulk(regionUserMaps, watermarks, todayMsk, signal)
+		: await processRegionsSequentially(regionUserMaps, watermarks, todayMsk, signal);
+	// Если блокировка потеряна на последнем регионе, запуск тоже должен считаться неудачным
+	signal.throwIfAborted();
+	
+	// Шаг 4: Итоговая статистика
+	logFinalStatistics(results);
+	return results;
+}
+
+// =================================================================================
+// РЕЖИМ "ЗАПРОС НА КАЖДЫЙ РЕГИОН"
+// =================================================================================
+async function processRegionsSequentially(
+	regionUserMaps: RegionUserMap[],
+	watermarks: Map<string, string>,
+	todayMsk: string,
+	signal: AbortSignal,
+): Promise<ProcessingResult[]> {
 	const results: ProcessingResult[] = [];
 	
 	for (const regionMap of regionUserMaps) {
+		// Ошибка одного региона не останавливает остальные, потеря блокировки — останавливает
+		signal.throwIfAborted();
 		try {
-			const result = await processRegion(regionMap, todayMsk);
+			const dateFrom = getRegionStartDate(regionMap.region, watermarks, todayMsk);
+			const result = await processRegion(regionMap, dateFrom, todayMsk, signal);
 			results.push(result);
+			await completeRegion(result, todayMsk);
 			
 			// Небольшая пауза между регионами для снижения нагрузки
 			await sleep(1000);
 		} catch (error) {
 			logger.error(`[SCHEDULER] Ошибка обработки региона "${regionMap.region}":`, error);
-			results.push({
-				region: regionMap.region,
-				totalRecords: 0,
-				processedRecords: 0,
-				skippedRecords: 0,
-				errorRecords: 1,
-			});
+			results.push(createFailedResult(regionMap.region, error));
 		}
 	}
 	
-	// Шаг 4: Итоговая статистика
-	logFinalStatistics(results);
+	return results;
+}
+
+// =================================================================================
+// РЕЖИМ "ОДНА ВЫГРУЗКА НА ЗАПУСК": реестр скачивается один раз и делится по SubjectRf
+// =================================================================================
+async function processRegionsBulk(
+	regionUserMaps: RegionUserMap[],
+	watermarks: Map<string, string>,
+	todayMsk: string,
+	signal: AbortSignal,
+): Promise<ProcessingResult[]> {
+	// Регионы с пропущенным периодом догружаются отдельными запросами: иначе одна долгая догрузка
+	// упирается в лимит страниц общей выгрузки и останавливает водяные знаки всех регионов
+	const { WATERMARK_MAX_CATCHUP_DAYS } = getSettings();
+	const catchUpMaps = regionUserMaps.filter(map => getFetchStartDate(watermarks.get(map.region), todayMsk, WATERMARK_MAX_CATCHUP_DAYS) < todayMsk);
+	const bulkMaps = regionUserMaps.filter(map => !catchUpMaps.includes(map));
+	
+	const results: ProcessingResult[] = [];
+	if (catchUpMaps.length > 0) {
+		logger.info(`[SCHEDULER] Шаг 2/5: Догрузка ${catchUpMaps.length} регионов отдельными запросами`);
+		results.push(...await processRegionsSequentially(catchUpMaps, watermarks, todayMsk, signal));
+	}
+	if (bulkMaps.length === 0) {
+		return results;
+	}
+	
+	logger.info(`[SCHEDULER] Шаг 2/5: Единая выгрузка реестра за ${todayMsk} для ${bulkMaps.length} регионов`);
+	
+	let fetchResult: EgrzFetchResult;
+	try {
+		fetchResult = await fetchEgrzDataWithRetry(null, todayMsk, todayMsk, signal);
+	} catch (error) {
+		logger.error('[SCHEDULER] Не удалось получить единую выгрузку реестра:', error);
+		return [...results, ...bulkMaps.map(map => createFailedResult(map.region, error))];
+	}
+	
+	logger.info(`[SCHEDULER] Единая выгрузка: ${fetchResult.records.length} записей за ${fetchResult.pages} стр.`);
+	
+	for (const regionMap of bulkMaps) {
+		signal.throwIfAborted();
+		const regionKey = regionMap.region.toLowerCase();
+		
+		// Та же логика, что и contains(tolower(SubjectRf), tolower(region)) в OData-фильтре
+		const regionRecords = fetchResult.records.filter(record =>
+			getRecordSubject(record).toLowerCase().includes(regionKey),
+		);
+		
+		try {
+			logger.info(`[SCHEDULER] Обработка региона "${regionMap.region}" (подписчиков: ${regionMap.userIds.length})`);
+			const result = await processRegionRecords(regionMap, regionRecords, signal);
+			// Все регионы единой выгрузки запрошены за один и тот же день
+			result.pageLimitReached = fetchResult.pageLimitReached;
+			results.push(result);
+			await completeRegion(result, todayMsk);
+		} catch (error) {
+			logger.error(`[SCHEDULER] Ошибка обработки региона "${regionMap.region}":`, error);
+			results.push(createFailedResult(regionMap.region, error));
+		}
+	}
+	
+	return results;
+}
+
+function getRegionStartDate(region: string, watermarks: Map<string, string>, todayMsk: string): string {
+	const dateFrom = getFetchStartDate(watermarks.get(region), todayMsk, getSettings().WATERMARK_MAX_CATCHUP_DAYS);
+	if (dateFrom < todayMsk) {
+		logger.info(`[SCHEDULER] Регион "${region}": догрузка пропущенного периода с ${dateFrom}`);
+	}
+	return dateFrom;
+}
+
+// Водяной знак сдвигается только после успешной и полной выборки: записи с ошибками
+// должны остаться в окне следующего запуска, иначе они выпадут из догрузки и не будут повторены
+async function completeRegion(result: ProcessingResult, todayMsk: string): Promise<void> {
+	if (result.pageLimitReached) {
+		logger.warn(`[SCHEDULER] Регион "${result.region}": выборка неполная, водяной знак не сдвигается`);
+		return;
+	}
+	if (result.errorRecords > 0) {
+		logger.warn(`[SCHEDULER] Регион "${result.region}": ${result.errorRecords} записей с ошибками, водяной знак не сдвигается`);
+		return;
+	}
+	await advanceRegionWatermark(result.region, todayMsk);
+}
+
+function createFailedResult(region: string, error: unknown): ProcessingResult {
+	return {
+		region,
+		totalRecords: 0,
+		processedRecords: 0,
+		skippedRecords: 0,
+		errorRecords: 1,
+		errorMessage: getErrorMessage(error),
+	};
 }
 
 // =================================================================================
@@ -142,33 +314,64 @@ async function collectRegionUserMaps(): Promise<RegionUserMap[]> {
 			attributes: ['userId', 'configData'],
 		});
 		
+		// Пользователи, заблокировавшие бота, не получают рассылку и не считаются подписчиками
+		const inactiveUserIds = await getInactiveUserIds();
+		// Участники команд получают лиды по подпискам команды вместо личных
+		const teamSubscriptions = await getTeamSubscriptions();
+		
 		const regionToUsersMap = new Map<string, Set<number>>();
+		const userConfigs = new Map<number, IUserConfig>();
 		let validConfigs = 0;
+		let skippedInactive = 0;
+		
+		const addSubscriber = (userId: number, userConfig: IUserConfig) => {
+			if (userConfig.regions.length === 0) return;
+			validConfigs++;
+			userConfigs.set(userId, userConfig);
+			for (const region of userConfig.regions) {
+				if (!regionToUsersMap.has(region)) {
+					regionToUsersMap.set(region, new Set());
+				}
+				regionToUsersMap.get(region)!.add(userId);
+			}
+		};
 		
 		for (const config of allConfigs) {
+			const userId = Number(config.dataValues.userId);
+			if (inactiveUserIds.has(userId)) {
+				skippedInactive++;
+				continue;
+			}
+			if (teamSubscriptions.has(userId)) continue;
+			
 			try {
-				const userConfig: IUserConfig = JSON.parse(config.dataValues.configData);
-				
-				if (userConfig.regions && Array.isArray(userConfig.regions) && userConfig.regions.length > 0) {
-					validConfigs++;
-					for (const region of userConfig.regions) {
-						if (!regionToUsersMap.has(region)) {
-							regionToUsersMap.set(region, new Set());
-						}
-						regionToUsersMap.get(region)!.add(config.dataValues.userId);
-					}
-				}
+				addSubscriber(userId, parseUserConfig(config.dataValues.configData));
 			} catch (parseError) {
 				logger.error(`[SCHEDULER] Ошибка парсинга конфигурации пользователя ${config.dataValues.userId}:`, parseError);
 			}
 		}
 		
+		for (const [userId, teamConfig] of teamSubscriptions) {
+			if (inactiveUserIds.has(userId)) {
+				skippedInactive++;
+				continue;
+			}
+			addSubscriber(userId, teamConfig);
+		}
+		
+		// Группы и каналы получают лиды по своим регионам; дедупликация в parsed_data ведется по ID чата
+		const targetSubscriptions = await getDeliveryTargetSubscriptions();
+		for (const [chatId, targetConfig] of targetSubscriptions) {
+			addSubscriber(chatId, targetConfig);
+		}
+		
 		const regionUserMaps: RegionUserMap[] = Array.from(regionToUsersMap.entries()).map(([region, userSet]) => ({
 			region,
 			userIds: Array.from(userSet),
+			userConfigs,
 		}));
 		
-		logger.info(`[SCHEDULER] Обработано конфигураций: ${validConfigs}/${allConfigs.length}, уникальных регионов: ${regionUserMaps.length}`);
+		logger.info(`[SCHEDULER] Обработано конфигураций: ${validConfigs}/${allConfigs.length} (участников команд: ${teamSubscriptions.size}, групп и каналов: ${targetSubscriptions.size}), неактивных пользователей: ${skippedInactive}, уникальных регионов: ${regionUserMaps.length}`);
 		
 		return regionUserMaps;
 	} catch (error) {
@@ -180,62 +383,112 @@ async function collectRegionUserMaps(): Promise<RegionUserMap[]> {
 // =================================================================================
 // ОБРАБОТКА ОДНОГО РЕГИОНА
 // =================================================================================
-async function processRegion(regionMap: RegionUserMap, todayMsk: string): Promise<ProcessingResult> {
+async function processRegion(regionMap: RegionUserMap, dateFrom: string, dateTo: string, signal?: AbortSignal): Promise<ProcessingResult> {
 	const { region, userIds } = regionMap;
 	
 	logger.info(`[SCHEDULER] Шаг 2/5: Обработка региона "${region}" (подписчиков: ${userIds.length})`);
 	
+	try {
+		// Получение данных с API ЕГРЗ с повторными попытками
+		const { records, pageLimitReached } = await fetchEgrzDataWithRetry(region, dateFrom, dateTo, signal);
+		const result = await processRegionRecords(regionMap, records, signal);
+		result.pageLimitReached = pageLimitReached;
+		return result;
+	} catch (error) {
+		logger.error(`[SCHEDULER] Критическая ошибка обработки региона "${region}":`, error);
+		throw error;
+	}
+}
+
+async function processRegionRecords(regionMap: RegionUserMap, records: IEgrzRecord[], signal?: AbortSignal): Promise<ProcessingResult> {
+	const { region, userIds } = regionMap;
+	
 	const result: ProcessingResult = {
 		region,
-		totalRecords: 0,
+		totalRecords: records.length,
 		processedRecords: 0,
 		skippedRecords: 0,
 		errorRecords: 0,
 	};
 	
-	try {
-		// Получение данных с API ЕГРЗ с повторными попытками
-		const records = await fetchEgrzDataWithRetry(region, todayMsk);
-		result.totalRecords = records.length;
-		
-		if (records.length === 0) {
-			logger.info(`[SCHEDULER] Регион "${region}": новых данных не найдено`);
-			return result;
-		}
-		
-		logger.info(`[SCHEDULER] Регион "${region}": найдено ${records.length} записей для обработки`);
-		
-		// Оптимизированная обработка записей
-		await processRecordsOptimized(records, region, userIds, result);
-		
-		logger.info(`[SCHEDULER] Регион "${region}": обработано=${result.processedRecords}, пропущено=${result.skippedRecords}, ошибок=${result.errorRecords}`);
-		
-	} catch (error) {
-		logger.error(`[SCHEDULER] Критическая ошибка обработки региона "${region}":`, error);
-		result.errorRecords++;
-		throw error;
+	if (records.length === 0) {
+		logger.info(`[SCHEDULER] Регион "${region}": новых данных не найдено`);
+		return result;
 	}
 	
+	logger.info(`[SCHEDULER] Регион "${region}": найдено ${records.length} записей для обработки`);
+	
+	// Оптимизированная обработка записей
+	await processRecordsOptimized(records, region, userIds, regionMap.userConfigs, result, signal);
+	
+	logger.info(`[SCHEDULER] Регион "${region}": обработано=${result.processedRecords}, пропущено=${result.skippedRecords}, ошибок=${result.errorRecords}`);
+	
 	return result;
 }
 
 // =================================================================================
 // ПОЛУЧЕНИЕ ДАННЫХ С API ЕГРЗ С ПОВТОРНЫМИ ПОПЫТКАМИ
 // =================================================================================
-async function fetchEgrzDataWithRetry(region: string, todayMsk: string): Promise<IEgrzRecord[]> {
-	const filter = `(date(ExpertiseConclusionDate) ge ${todayMsk}Z and date(ExpertiseConclusionDate) le ${todayMsk}T23:59:59.999Z and contains(tolower(SubjectRf),tolower('${region}')))`;
+// Без явной сортировки OData не гарантирует одинаковый порядок записей между запросами,
+// и при листании через $skip записи могут повторяться или пропадать
+const EGRZ_ORDER_BY = 'ExpertiseConclusionDate asc,ExpertiseConclusionNumber asc';
+
+// region = null — выборка по всем регионам (режим единой выгрузки)
+function buildEgrzFilter(region: string | null, dateFrom: string, dateTo: string): string {
+	const dateFilter = `date(ExpertiseConclusionDate) ge ${dateFrom}Z and date(ExpertiseConclusionDate) le ${dateTo}T23:59:59.999Z`;
+	if (!region) {
+		return `(${dateFilter})`;
+	}
+	return `(${dateFilter} and contains(tolower(SubjectRf),tolower('${region}')))`;
+}
+
+async function fetchEgrzDataWithRetry(region: string | null, dateFrom: string, dateTo: string, signal?: AbortSignal): Promise<EgrzFetchResult> {
+	const filter = buildEgrzFilter(region, dateFrom, dateTo);
+	const regionLabel = region ?? 'все регионы';
+	const { MAX_RECORDS_PER_REQUEST: pageSize, MAX_PAGES_PER_FETCH: maxPages } = getSettings();
+	const records: IEgrzRecord[] = [];
+	const seenNumbers = new Set<string>();
 	
-	for (let attempt = 1; attempt <= SCHEDULER_CONFIG.MAX_RETRIES; attempt++) {
+	// Листаем страницы через $skip/$top, пока API не вернет неполную страницу
+	for (let page = 0; page < maxPages; page++) {
+		signal?.throwIfAborted();
+		const pageRecords = await fetchEgrzPageWithRetry(regionLabel, filter, page * pageSize, pageSize);
+		for (const record of pageRecords) {
+			// Если реестр обновился между запросами, запись может сдвинуться на следующую страницу
+			const uniqueNumber = record['Номер заключения экспертизы'];
+			if (uniqueNumber && seenNumbers.has(uniqueNumber)) continue;
+			if (uniqueNumber) seenNumbers.add(uniqueNumber);
+			records.push(record);
+		}
+		
+		if (pageRecords.length < pageSize) {
+			logger.debug(`[SCHEDULER] Регион "${regionLabel}": получено ${records.length} записей за ${page + 1} стр.`);
+			await saveLeads(records, region);
+			return { records, pages: page + 1, pageLimitReached: false };
+		}
+	}
+	
+	await saveLeads(records, region);
+	logger.warn(`[SCHEDULER] Регион "${regionLabel}": достигнут лимит в ${maxPages} стр. (${records.length} записей), остальные записи за ${dateFrom}..${dateTo} не получены`);
+	return { records, pages: maxPages, pageLimitReached: true };
+}
+
+async function fetchEgrzPageWithRetry(regionLabel: string, filter: string, skip: number, top: number): Promise<IEgrzRecord[]> {
+	const { MAX_RETRIES, RETRY_DELAY, HTTP_TIMEOUT } = getSettings();
+	
+	for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
 		try {
-			logger.debug(`[SCHEDULER] Попытка ${attempt}/${SCHEDULER_CONFIG.MAX_RETRIES} получения данных для региона "${region}"`);
+			logger.debug(`[SCHEDULER] Попытка ${attempt}/${MAX_RETRIES} получения данных для региона "${regionLabel}" ($skip=${skip})`);
 			
 			const response = await axios.get('https://open-api.egrz.ru/api/PublicRegistrationBook/openDataFile', {
 				params: {
 					$filter: filter,
-					$top: SCHEDULER_CONFIG.MAX_RECORDS_PER_REQUEST,
+					$orderby: EGRZ_ORDER_BY,
+					$top: top,
+					$skip: skip,
 				},
 				httpsAgent,
-				timeout: SCHEDULER_CONFIG.HTTP_TIMEOUT,
+				timeout: HTTP_TIMEOUT,
 			});
 			
 			// Очистка и парсинг CSV
@@ -251,24 +504,24 @@ async function fetchEgrzDataWithRetry(region: string, todayMsk: string): Promise
 				trim: true,
 			});
 			
-			logger.debug(`[SCHEDULER] Успешно получено ${records.length} записей для региона "${region}"`);
+			logger.debug(`[SCHEDULER] Успешно получено ${records.length} записей для региона "${regionLabel}" ($skip=${skip})`);
 			return records;
 			
 		} catch (error: any) {
-			const isLastAttempt = attempt === SCHEDULER_CONFIG.MAX_RETRIES;
+			const isLastAttempt = attempt === MAX_RETRIES;
 			
 			if (error.code === 'ECONNRESET' || error.code === 'ETIMEDOUT' || error.code === 'ECONNABORTED') {
-				logger.warn(`[SCHEDULER] Сетевая ошибка для региона "${region}" (попытка ${attempt}): ${error.message}`);
+				logger.warn(`[SCHEDULER] Сетевая ошибка для региона "${regionLabel}" (попытка ${attempt}): ${error.message}`);
 				
 				if (!isLastAttempt) {
-					logger.info(`[SCHEDULER] Повторная попытка через ${SCHEDULER_CONFIG.RETRY_DELAY / 1000} секунд...`);
-					await sleep(SCHEDULER_CONFIG.RETRY_DELAY);
+					logger.info(`[SCHEDULER] Повторная попытка через ${RETRY_DELAY / 1000} секунд...`);
+					await sleep(RETRY_DELAY);
 					continue;
 				}
 			}
 			
 			if (isLastAttempt) {
-				logger.error(`[SCHEDULER] Все попытки исчерпаны для региона "${region}". Ошибка:`, error.message);
+				logger.error(`[SCHEDULER] Все попытки исчерпаны для региона "${regionLabel}". Ошибка:`, error.message);
 				throw error;
 			}
 		}
@@ -284,7 +537,9 @@ async function processRecordsOptimized(
 	records: IEgrzRecord[],
 	region: string,
 	userIds: number[],
+	userConfigs: Map<number, IUserConfig>,
 	result: ProcessingResult,
+	signal?: AbortSignal,
 ): Promise<void> {
 	logger.info(`[SCHEDULER] Шаг 3/5: Оптимизированная обработка ${records.length} записей...`);
 	
@@ -308,20 +563,27 @@ async function processRecordsOptimized(
 		raw: true,
 	});
 	
+	// Лиды, которые уже стоят в очереди или не были доставлены окончательно, повторно не ставятся
+	const pendingCombinations = await getQueuedDeliveries(userIds, allConclusionNumbers);
+	
 	// Создаем Set для быстрого поиска отправленных комбинаций
-	const sentCombinations = new Set(
-		alreadySentRecords.map(record => `${record.userId}:${record.dataContent}`),
-	);
+	const sentCombinations = new Set([
+		...alreadySentRecords.map(record => `${record.userId}:${record.dataContent}`),
+		...pendingCombinations,
+	]);
 	
-	logger.info(`[SCHEDULER] Найдено уже отправленных записей: ${alreadySentRecords.length}`);
+	logger.info(`[SCHEDULER] Найдено уже отправленных записей: ${alreadySentRecords.length}, в очереди или не доставлено: ${pendingCombinations.size}`);
 	
 	// Обрабатываем каждую запись
 	for (const record of records) {
 		try {
-			await processIndividualRecord(record, region, userIds, sentCombinations, result);
+			await processIndividualRecord(record, region, userIds, userConfigs, sentCombinations, result, signal);
 		} catch (error) {
+			// Потеря блокировки прерывает весь регион, а не одну запись
+			if (signal?.aborted) throw error;
 			logger.error(`[SCHEDULER] Ошибка обработки записи "${record['Номер заключения экспертизы']}":`, error);
 			result.errorRecords++;
+			result.errorMessage = `Запись "${record['Номер заключения экспертизы']}": ${getErrorMessage(error)}`;
 		}
 	}
 }
@@ -333,8 +595,10 @@ async function processIndividualRecord(
 	record: IEgrzRecord,
 	region: string,
 	userIds: number[],
+	userConfigs: Map<number, IUserConfig>,
 	sentCombinations: Set<string>,
 	result: ProcessingResult,
+	signal?: AbortSignal,
 ): Promise<void> {
 	const uniqueNumber = record['Номер заключения экспертизы'];
 	if (!uniqueNumber?.trim()) {
@@ -360,17 +624,41 @@ async function processIndividualRecord(
 		return;
 	}
 	
-	logger.debug(`[SCHEDULER] Запись "${uniqueNumber}": найдено ${usersToSend.length} новых получателей`);
+	// Применяем пользовательские фильтры по ключевым словам
+	const matchedUsers = usersToSend.filter(userId =>
+		matchesLeadFilters(record, region, userConfigs.get(userId)?.filters),
+	);
+	
+	if (matchedUsers.length === 0) {
+		logger.debug(`[SCHEDULER] Запись "${uniqueNumber}" пропущена фильтрами всех получателей`);
+		result.skippedRecords++;
+		return;
+	}
+	
+	logger.debug(`[SCHEDULER] Запись "${uniqueNumber}": найдено ${matchedUsers.length} новых получателей`);
 	
 	// Получение или создание сообщения с кешированием
-	const messageText = await getOrCreateProcessedMessage(record, region, uniqueNumber);
+	signal?.throwIfAborted();
+	const { message: messageText, classification } = await getOrCreateProcessedMessage(record, region, uniqueNumber);
 	if (!messageText) {
 		result.skippedRecords++;
 		return;
 	}
 	
+	// Категории и минимальная оценка проверяются после AI, когда известна классификация
+	const recipients = matchedUsers.filter(userId =>
+		matchesLeadClassification(classification, userConfigs.get(userId)),
+	);
+	if (recipients.length === 0) {
+		logger.debug(`[SCHEDULER] Запись "${uniqueNumber}" не прошла по категориям и оценке всех получателей`);
+		result.skippedRecords++;
+		return;
+	}
+	
 	// Рассылка сообщения новым получателям
-	await sendMessageToUsers(usersToSend, messageText, uniqueNumber, result);
+	signal?.throwIfAborted();
+	await sendMessageToUsers(recipients, messageText, uniqueNumber);
+	await enqueueLeadWebhooks(record, region, messageText, classification, recipients);
 	
 	result.processedRecords++;
 }
@@ -378,28 +666,34 @@ async function processIndividualRecord(
 // =================================================================================
 // ПОЛУЧЕНИЕ ИЛИ СОЗДАНИЕ ОБРАБОТАННОГО СООБЩЕНИЯ
 // =================================================================================
-async function getOrCreateProcessedMessage(record: IEgrzRecord, region: string, uniqueNumber: string): Promise<string> {
+async function getOrCreateProcessedMessage(record: IEgrzRecord, region: string, uniqueNumber: string): Promise<ProcessedMessage> {
 	// Проверяем кеш
 	const cachedLead = await ProcessedLead.findOne({
 		where: { conclusionNumber: uniqueNumber },
-		attributes: ['processedMessage'],
+		attributes: ['processedMessage', 'objectType', 'constructionType', 'score'],
 	});
 	
 	if (cachedLead) {
 		logger.debug(`[SCHEDULER] Сообщение для "${uniqueNumber}" найдено в кеше`);
-		return cachedLead.processedMessage;
+		return {
+			message: cachedLead.processedMessage,
+			classification: cachedLead.objectType && cachedLead.constructionType
+				? { objectType: cachedLead.objectType, constructionType: cachedLead.constructionType, score: cachedLead.score }
+				: null,
+		};
 	}
 	
 	// Создаем новое сообщение через AI
 	logger.debug(`[SCHEDULER] Создание нового сообщения для "${uniqueNumber}" через AI...`);
-	const messageText = await processLeadWithAI(record, region);
+	const processed = await processLeadWithAI(record, region);
 	
-	// Сохраняем в кеш только валидные сообщения
-	if (messageText && (messageText.includes('🏙️') || messageText.includes('🏠'))) {
+	// Сохраняем в кеш только ответы AI: разбор по правилам дешев и повторяется,
+	// чтобы при восстановлении AI лид получил сообщение от модели
+	if (processed.source === 'ai') {
 		try {
 			await ProcessedLead.create({
 				conclusionNumber: uniqueNumber,
-				processedMessage: messageText,
+				...toProcessedLeadFields(processed),
 			});
 			logger.debug(`[SCHEDULER] Сообщение для "${uniqueNumber}" сохранено в кеш`);
 		} catch (cacheError) {
@@ -408,56 +702,42 @@ async function getOrCreateProcessedMessage(record: IEgrzRecord, region: string,
 		}
 	}
 	
-	return messageText;
+	return { message: processed.message, classification: processed.extraction.classification || null };
+}
+
+function toProcessedLeadFields(processed: ILeadProcessingResult) {
+	const classification = processed.extraction.classification;
+	return {
+		processedMessage: processed.message,
+		extractedData: JSON.stringify(processed.extraction),
+		promptVersion: processed.promptVersion,
+		objectType: classification?.objectType ?? null,
+		constructionType: classification?.constructionType ?? null,
+		score: classification?.score ?? null,
+	};
 }
 
 // =================================================================================
-// РАССЫЛКА СООБЩЕНИЯ ПОЛЬЗОВАТЕЛЯМ
+// ПОСТАНОВКА СООБЩЕНИЯ В ОЧЕРЕДЬ ОТПРАВКИ
 // =================================================================================
-async function sendMessageToUsers(userIds: number[], messageText: string, uniqueNumber: string, result: ProcessingResult): Promise<void> {
-	logger.info(`[SCHEDULER] Шаг 4/5: Рассылка сообщения "${uniqueNumber}" для ${userIds.length} пользователей...`);
+async function sendMessageToUsers(userIds: number[], messageText: string, uniqueNumber: string): Promise<void> {
+	logger.info(`[SCHEDULER] Шаг 4/5: Постановка сообщения "${uniqueNumber}" в очередь для ${userIds.length} пользователей...`);
 	
-	const sendPromises = userIds.map(async (userId) => {
-		try {
-			const success = await safeSendMessage(userId, messageText);
-			
-			// Записываем факт отправки только если сообщение действительно доставлено
-			if (success) {
-				await ParsedData.create({
-					userId,
-					dataContent: uniqueNumber,
-				});
-				
-				logger.debug(`[SCHEDULER] Сообщение "${uniqueNumber}" успешно отправлено пользователю ${userId}`);
-			} else {
-				logger.warn(`[SCHEDULER] Не удалось отправить сообщение "${uniqueNumber}" пользователю ${userId}`);
-				result.errorRecords++;
-			}
-		} catch (error: any) {
-			if (error.response?.statusCode === 403) {
-				logger.warn(`[SCHEDULER] Пользователь ${userId} заблокировал бота`);
-			} else if (error.response?.statusCode === 400 && error.response?.body?.description?.includes('chat not found')) {
-				logger.warn(`[SCHEDULER] Чат с пользователем ${userId} не найден`);
-			} else {
-				logger.error(`[SCHEDULER] Ошибка отправки сообщения пользователю ${userId}:`, error.message);
-				result.errorRecords++;
-			}
-		}
-	});
-	
-	// Ждем завершения всех отправок
-	await Promise.allSettled(sendPromises);
+	// Доставку, паузы по лимитам Telegram и запись в parsed_data выполняет воркер очереди
+	const keyboard = buildLeadStatusKeyboard(uniqueNumber);
+	// Статусы личные, поэтому в группы и каналы лиды уходят без кнопок
+	const groupChatIds = userIds.filter(isGroupChatId);
+	const privateChatIds = userIds.filter(userId => !isGroupChatId(userId));
+	// Участникам команд добавляется кнопка назначения ответственного
+	const teamMemberIds = await getTeamMemberIds(privateChatIds);
+	await enqueueMessages(groupChatIds, messageText, uniqueNumber);
+	await enqueueMessages(privateChatIds.filter(userId => !teamMemberIds.has(userId)), messageText, uniqueNumber, keyboard);
+	await enqueueMessages(privateChatIds.filter(userId => teamMemberIds.has(userId)), messageText, uniqueNumber, withAssignmentButton(keyboard, uniqueNumber));
 }
 
 // =================================================================================
 // ВСПОМОГАТЕЛЬНЫЕ ФУНКЦИИ
 // =================================================================================
-function getTodayMoscowDate(): string {
-	// В продакшене замените на эту строку:
-	return new Date(new Date().toLocaleString('en-US', { timeZone: 'Europe/Moscow' })).toISOString().split('T')[0];
-	
-}
-
 function cleanCsvData(rawData: string): string {
 	return rawData
 		.split('\n')
@@ -469,6 +749,10 @@ function cleanCsvData(rawData: string): string {
 		.join('\n');
 }
 
+function getErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
 function sleep(ms: number): Promise<void> {
 	return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -487,6 +771,11 @@ function logFinalStatistics(results: ProcessingResult[]): void {
 	logger.info(`[SCHEDULER] Успешно обработано: ${totals.processedRecords}`);
 	logger.info(`[SCHEDULER] Пропущено: ${totals.skippedRecords}`);
 	logger.info(`[SCHEDULER] Ошибок: ${totals.errorRecords}`);
+	
+	const truncatedRegions = results.filter(result => result.pageLimitReached).map(result => result.region);
+	if (truncatedRegions.length > 0) {
+		logger.warn(`[SCHEDULER] Лимит страниц достигнут, данные неполные для регионов: ${truncatedRegions.join(', ')}`);
+	}
 	logger.info('[SCHEDULER] ================================================================');
 }
 
@@ -497,80 +786,316 @@ export async function triggerImmediateParse(region: string, userId: number): Pro
 	logger.info(`[IMMEDIATE_PARSE] Запуск немедленного парсинга для пользователя ${userId} по региону "${region}"`);
 	
 	try {
-		const todayMsk = getTodayMoscowDate();
-		
-		// Получаем данные с повторными попытками
-		const records = await fetchEgrzDataWithRetry(region, todayMsk);
+		const outcome = await withParseLock(signal => runImmediateParse(region, userId, signal));
+		if (!outcome.acquired) {
+			logger.warn(`[IMMEDIATE_PARSE] Блокировка парсинга занята, поиск для ${userId} отложен до планового запуска`);
+			await safeSendMessage(userId, `⏳ Сейчас идет плановая обработка данных. Записи по региону "${region.split(' - ')[0]}" придут при следующем плановом запуске.`);
+		}
+	} catch (error) {
+		logger.error(`[IMMEDIATE_PARSE] Критическая ошибка при немедленном парсинге для ${userId}:`, error);
+		await safeSendMessage(userId, '❌ При поиске произошла ошибка. Попробуйте добавить регион еще' +
+			' раз или обратитесь к администратору. В этом канале можно узнать всю информацию о текущем состоянии бота - https://t.me/egrz_sberbot');
+	}
+}
+
+async function runImmediateParse(region: string, userId: number, signal: AbortSignal): Promise<void> {
+	const todayMsk = getTodayMoscowDate();
+	
+	// Получаем данные с повторными попытками
+	const { records } = await fetchEgrzDataWithRetry(region, todayMsk, todayMsk, signal);
+	
+	if (records.length === 0) {
+		await safeSendMessage(userId, `По региону "${region.split(' - ')[0]}" за сегодня пока нет новых данных. В этом канале можно узнать всю информацию о текущем состоянии бота - https://t.me/egrz_sberbot`);
+		return;
+	}
+	
+	const { sentCount: sentMessagesCount, skippedCount: skippedRecordsCount } = await deliverRecordsToUser(records, region, userId, signal);
+	
+	// Отправляем итоговое сообщение
+	let finalMessage = '';
+	if (sentMessagesCount > 0) {
+		finalMessage = `✅ Первоначальный поиск завершен. Отправлено новых записей: ${sentMessagesCount}.`;
+		if (skippedRecordsCount > 0) {
+			finalMessage += `\nПропущено нерелевантных: ${skippedRecordsCount}.`;
+		}
+	} else {
+		if (skippedRecordsCount > 0) {
+			finalMessage = `✅ Первоначальный поиск завершен. Новых записей для отправки нет, т.к. найденные ${skippedRecordsCount} шт. были нерелевантны. В этом канале можно узнать всю информацию о текущем состоянии бота - https://t.me/egrz_sberbot`;
+		} else {
+			finalMessage = '✅ Первоначальный поиск завершен. Все найденные записи уже были' +
+				' отправлены вам ранее. В этом канале можно узнать всю информацию о текущем состоянии бота - https://t.me/egrz_sberbot';
+		}
+	}
+	
+	// Через очередь, чтобы итог пришел после самих лидов
+	signal.throwIfAborted();
+	await enqueueMessage(userId, finalMessage);
+}
+
+// =================================================================================
+// ДОСТАВКА ЗАПИСЕЙ ОДНОМУ ПОЛЬЗОВАТЕЛЮ (немедленный парсинг и догрузка)
+// =================================================================================
+async function deliverRecordsToUser(records: IEgrzRecord[], region: string, userId: number, signal: AbortSignal): Promise<UserDeliveryResult> {
+	const userConfig = await getSubscriptionConfig(userId);
+	const isTeamMember = (await getTeamMemberIds([userId])).has(userId);
+	let sentCount = 0;
+	let skippedCount = 0;
+	
+	// Получаем уже отправленные записи для этого пользователя
+	const sentRecords = await ParsedData.findAll({
+		where: {
+			userId,
+			dataContent: { [Op.in]: records.map(r => r['Номер заключения экспертизы']).filter(Boolean) },
+		},
+		attributes: ['dataContent'],
+		raw: true,
+	});
+	
+	const sentNumbers = new Set(sentRecords.map(r => r.dataContent));
+	
+	// Лиды, уже поставленные в очередь этому пользователю (в том числе недоставленные)
+	const pendingCombinations = await getQueuedDeliveries([userId], records.map(r => r['Номер заключения экспертизы']).filter(Boolean));
+	
+	for (const record of records) {
+		const uniqueNumber = record['Номер заключения экспертизы'];
+		if (!uniqueNumber) {
+			skippedCount++;
+			continue;
+		}
 		
-		if (records.length === 0) {
-			await safeSendMessage(userId, `По региону "${region.split(' - ')[0]}" за сегодня пока нет новых данных. В этом канале можно узнать всю информацию о текущем состоянии бота - https://t.me/egrz_sberbot`);
-			return;
+		const developerInfo = record['Сведения о застройщике, обеспечившем подготовку проектной документации'] || '';
+		if (developerInfo.trim().toLowerCase() === 'не требуется') {
+			skippedCount++;
+			continue;
 		}
 		
-		let sentMessagesCount = 0;
-		let skippedRecordsCount = 0;
+		if (!matchesLeadFilters(record, region, userConfig.filters)) {
+			skippedCount++;
+			continue;
+		}
 		
-		// Получаем уже отправленные записи для этого пользователя
-		const sentRecords = await ParsedData.findAll({
-			where: {
-				userId,
-				dataContent: { [Op.in]: records.map(r => r['Номер заключения экспертизы']).filter(Boolean) },
-			},
-			attributes: ['dataContent'],
-			raw: true,
-		});
+		if (sentNumbers.has(uniqueNumber) || pendingCombinations.has(`${userId}:${uniqueNumber}`)) {
+			continue; // Уже отправляли этому пользователю
+		}
 		
-		const sentNumbers = new Set(sentRecords.map(r => r.dataContent));
+		signal.throwIfAborted();
+		const { message: messageText, classification } = await getOrCreateProcessedMessage(record, region, uniqueNumber);
+		if (!matchesLeadClassification(classification, userConfig)) {
+			skippedCount++;
+			continue;
+		}
 		
-		for (const record of records) {
-			const uniqueNumber = record['Номер заключения экспертизы'];
-			if (!uniqueNumber) {
-				skippedRecordsCount++;
-				continue;
-			}
+		if (messageText) {
+			signal.throwIfAborted();
+			const keyboard = buildLeadStatusKeyboard(uniqueNumber);
+			await enqueueMessage(userId, messageText, uniqueNumber, isTeamMember ? withAssignmentButton(keyboard, uniqueNumber) : keyboard);
+			await enqueueLeadWebhooks(record, region, messageText, classification, [userId]);
+			sentNumbers.add(uniqueNumber);
+			sentCount++;
+		}
+	}
+	
+	return { sentCount, skippedCount };
+}
+
+// =================================================================================
+// ИСТОРИЧЕСКАЯ ДОГРУЗКА ЗА ПРОИЗВОЛЬНЫЙ ПЕРИОД
+// =================================================================================
+
+/**
+ * Проверяет период догрузки. Возвращает текст ошибки или null, если период корректен.
+ */
+export function validateHistoryRange(dateFrom: string, dateTo: string): string | null {
+	if (!isValidIsoDate(dateFrom) || !isValidIsoDate(dateTo)) {
+		return 'Даты должны быть в формате ГГГГ-ММ-ДД.';
+	}
+	if (dateFrom > dateTo) {
+		return 'Дата начала периода позже даты окончания.';
+	}
+	if (dateTo > getTodayMoscowDate()) {
+		return 'Дата окончания периода не может быть в будущем.';
+	}
+	const { BACKFILL_MAX_DAYS } = getSettings();
+	if (enumerateDays(dateFrom, dateTo).length > BACKFILL_MAX_DAYS) {
+		return `Период не может быть длиннее ${BACKFILL_MAX_DAYS} дней.`;
+	}
+	return null;
+}
+
+/**
+ * Догружает записи за период для одного пользователя (команда /history).
+ * Обработка идет по дням, после каждого дня пользователю отправляется прогресс.
+ */
+export async function triggerHistoryParse(region: string, userId: number, dateFrom: string, dateTo: string): Promise<void> {
+	logger.info(`[HISTORY] Догрузка для пользователя ${userId} по региону "${region}" за ${dateFrom}..${dateTo}`);
+	
+	const days = enumerateDays(dateFrom, dateTo);
+	const regionName = region.split(' - ')[0];
+	let totalRecords = 0;
+	let totalSent = 0;
+	let totalSkipped = 0;
+	
+	try {
+		for (let i = 0; i < days.length; i++) {
+			const day = days[i];
 			
-			const developerInfo = record['Сведения о застройщике, обеспечившем подготовку проектной документации'] || '';
-			if (developerInfo.trim().toLowerCase() === 'не требуется') {
-				skippedRecordsCount++;
-				continue;
+			// Блокировка берется на каждый день, чтобы плановые запуски могли выполняться между ними
+			const outcome = await withParseLock(async (signal) => {
+				const { records } = await fetchEgrzDataWithRetry(region, day, day, signal);
+				const delivery = records.length > 0
+					? await deliverRecordsToUser(records, region, userId, signal)
+					: { sentCount: 0, skippedCount: 0 };
+				return { records, ...delivery };
+			});
+			if (!outcome.acquired) {
+				throw new Error('Не удалось дождаться освобождения блокировки парсинга');
 			}
+			const { records, sentCount, skippedCount } = outcome.result;
 			
-			if (sentNumbers.has(uniqueNumber)) {
-				continue; // Уже отправляли этому пользователю
-			}
+			totalRecords += records.length;
+			totalSent += sentCount;
+			totalSkipped += skippedCount;
 			
-			const messageText = await getOrCreateProcessedMessage(record, region, uniqueNumber);
+			await enqueueMessage(userId, `⏳ ${regionName}: ${day} (${i + 1}/${days.length}) — найдено ${records.length}, отправлено ${sentCount}.`);
 			
-			if (messageText) {
-				const success = await safeSendMessage(userId, messageText);
-				if (success) {
-					await ParsedData.create({ userId, dataContent: uniqueNumber });
-					sentMessagesCount++;
-				}
+			if (i < days.length - 1) {
+				await sleep(1000);
 			}
 		}
 		
-		// Отправляем итоговое сообщение
-		let finalMessage = '';
-		if (sentMessagesCount > 0) {
-			finalMessage = `✅ Первоначальный поиск завершен. Отправлено новых записей: ${sentMessagesCount}.`;
-			if (skippedRecordsCount > 0) {
-				finalMessage += `\nПропущено нерелевантных: ${skippedRecordsCount}.`;
-			}
-		} else {
-			if (skippedRecordsCount > 0) {
-				finalMessage = `✅ Первоначальный поиск завершен. Новых записей для отправки нет, т.к. найденные ${skippedRecordsCount} шт. были нерелевантны. В этом канале можно узнать всю информацию о текущем состоянии бота - https://t.me/egrz_sberbot`;
-			} else {
-				finalMessage = '✅ Первоначальный поиск завершен. Все найденные записи уже были' +
-					' отправлены вам ранее. В этом канале можно узнать всю информацию о текущем состоянии бота - https://t.me/egrz_sberbot';
+		await enqueueMessage(userId, `✅ Догрузка за ${dateFrom} — ${dateTo} завершена. Найдено записей: ${totalRecords}, отправлено новых: ${totalSent}, пропущено нерелевантных: ${totalSkipped}.`);
+	} catch (error) {
+		logger.error(`[HISTORY] Ошибка догрузки для пользователя ${userId}:`, error);
+		await safeSendMessage(userId, `❌ Догрузка прервана из-за ошибки. Отправлено записей до сбоя: ${totalSent}. Попробуйте повторить позже.`);
+	}
+}
+
+/**
+ * Догружает записи за период для всех подписчиков региона (админский HTTP-маршрут).
+ * Записи проходят обычный конвейер: дедупликация, AI и рассылка.
+ */
+export async function runRegionHistoryBackfill(
+	region: string,
+	dateFrom: string,
+	dateTo: string,
+	onProgress?: BackfillProgressCallback,
+): Promise<ProcessingResult> {
+	logger.info(`[HISTORY] Догрузка региона "${region}" за ${dateFrom}..${dateTo} для всех подписчиков`);
+	
+	const totals: ProcessingResult = {
+		region,
+		totalRecords: 0,
+		processedRecords: 0,
+		skippedRecords: 0,
+		errorRecords: 0,
+	};
+	
+	const regionMap = (await collectRegionUserMaps()).find(map => map.region === region);
+	if (!regionMap) {
+		logger.info(`[HISTORY] У региона "${region}" нет подписчиков, догрузка не требуется`);
+		return totals;
+	}
+	
+	const days = enumerateDays(dateFrom, dateTo);
+	for (let i = 0; i < days.length; i++) {
+		const outcome = await withParseLock(signal => processRegion(regionMap, days[i], days[i], signal));
+		if (!outcome.acquired) {
+			throw new Error('Не удалось дождаться освобождения блокировки парсинга');
+		}
+		const dayResult = outcome.result;
+		totals.totalRecords += dayResult.totalRecords;
+		totals.processedRecords += dayResult.processedRecords;
+		totals.skippedRecords += dayResult.skippedRecords;
+		totals.errorRecords += dayResult.errorRecords;
+		totals.pageLimitReached = totals.pageLimitReached || dayResult.pageLimitReached;
+		
+		await onProgress?.(days[i], i + 1, days.length, dayResult);
+		await sleep(1000);
+	}
+	
+	logFinalStatistics([totals]);
+	return totals;
+}
+
+/**
+ * Пересоздает кешированные сообщения за период по действующему промпту (команда /regenerate).
+ * Записи берутся из таблицы leads, обновляются только лиды из кеша с другой версией промпта.
+ * Повторная рассылка не выполняется: новые сообщения получат только следующие получатели.
+ */
+// Устаревшие сообщения: созданы по другой версии промпта или до появления версий
+function stalePromptCondition(promptVersion: number) {
+	return { [Op.or]: [{ promptVersion: null }, { promptVersion: { [Op.ne]: promptVersion } }] };
+}
+
+/**
+ * Считает сообщения за период, которые /regenerate пересоздаст по действующему промпту
+ * (по одному запросу к AI на каждое).
+ */
+export async function countStaleProcessedLeads(dateFrom: string, dateTo: string): Promise<number> {
+	const prompt = await getActivePrompt();
+	const storedLeads = await Lead.findAll({
+		where: { conclusionDate: { [Op.between]: [dateFrom, dateTo] } },
+		attributes: ['conclusionNumber'],
+		raw: true,
+	});
+	if (storedLeads.length === 0) return 0;
+	
+	return ProcessedLead.count({
+		where: {
+			conclusionNumber: { [Op.in]: storedLeads.map(stored => stored.conclusionNumber) },
+			...stalePromptCondition(prompt.version),
+		},
+	});
+}
+
+export async function regenerateProcessedLeads(
+	dateFrom: string,
+	dateTo: string,
+	onProgress?: RegenerationProgressCallback,
+): Promise<RegenerationResult> {
+	const prompt = await getActivePrompt();
+	logger.info(`[REGENERATE] Пересоздание сообщений за ${dateFrom}..${dateTo} по версии промпта ${prompt.version}`);
+	
+	const totals: RegenerationResult = { totalRecords: 0, staleRecords: 0, regeneratedRecords: 0, failedRecords: 0 };
+	const days = enumerateDays(dateFrom, dateTo);
+	
+	for (let i = 0; i < days.length; i++) {
+		const dayResult: RegenerationResult = { totalRecords: 0, staleRecords: 0, regeneratedRecords: 0, failedRecords: 0 };
+		const storedLeads = await Lead.findAll({ where: { conclusionDate: days[i] } });
+		dayResult.totalRecords = storedLeads.length;
+		
+		const storedByNumber = new Map(storedLeads.map(stored => [stored.conclusionNumber, stored]));
+		
+		const staleLeads = storedByNumber.size > 0
+			? await ProcessedLead.findAll({
+				where: {
+					conclusionNumber: { [Op.in]: Array.from(storedByNumber.keys()) },
+					...stalePromptCondition(prompt.version),
+				},
+			})
+			: [];
+		dayResult.staleRecords = staleLeads.length;
+		
+		for (const lead of staleLeads) {
+			const stored = storedByNumber.get(lead.conclusionNumber)!;
+			const processed = await processLeadWithAI(toEgrzRecord(stored), stored.region || stored.subject || 'не указан');
+			
+			if (processed.source !== 'ai') {
+				dayResult.failedRecords++;
+				continue;
 			}
+			await lead.update(toProcessedLeadFields(processed));
+			dayResult.regeneratedRecords++;
 		}
 		
-		await safeSendMessage(userId, finalMessage);
+		totals.totalRecords += dayResult.totalRecords;
+		totals.staleRecords += dayResult.staleRecords;
+		totals.regeneratedRecords += dayResult.regeneratedRecords;
+		totals.failedRecords += dayResult.failedRecords;
 		
-	} catch (error) {
-		logger.error(`[IMMEDIATE_PARSE] Критическая ошибка при немедленном парсинге для ${userId}:`, error);
-		await safeSendMessage(userId, '❌ При поиске произошла ошибка. Попробуйте добавить регион еще' +
-			' раз или обратитесь к администратору. В этом канале можно узнать всю информацию о текущем состоянии бота - https://t.me/egrz_sberbot');
+		await onProgress?.(days[i], i + 1, days.length, dayResult);
 	}
-}
\ No newline at end of file
+	
+	logger.info(`[REGENERATE] Завершено: записей ${totals.totalRecords}, устаревших ${totals.staleRecords}, пересоздано ${totals.regeneratedRecords}, с ошибкой ${totals.failedRecords}`);
+	return totals;
+}
@@ -1,99 +1,123 @@
-import OpenAI from 'openai';
+import { APIConnectionTimeoutError } from 'openai';
 import { IEgrzRecord } from '../types/egrz.types';
 import moment from 'moment';
+import { config } from '../config';
 import { logger } from '../logger';
-
-// Получаем ключ из переменных окружения
-const apiKey = process.env.OPENAI_API_KEY;
-
-if (!apiKey) {
-	logger.warn('ВНИМАНИЕ: API-ключ для OpenAI не найден в .env файле. AI-обработка будет отключена.');
+import { isAiBudgetExceeded, recordAiUsage } from './aiUsageService';
+import { ILeadExtraction, parseLeadExtraction } from './leadExtraction';
+import { renderLeadMessage } from './leadTemplate';
+import { completeWithFallback, isLLMConfigured } from './llmProvider';
+import { extractLeadWithRules } from './ruleBasedExtractor';
+import { getActivePrompt } from './promptService';
+import { getSettings } from './settingsService';
+
+
+export interface ILeadProcessingResult {
+	// Готовый текст сообщения для Telegram
+	message: string;
+	// Структурированные данные лида
+	extraction: ILeadExtraction;
+	// ai — ответ модели, rules — локальный разбор по правилам
+	source: 'ai' | 'rules';
+	// Версия промпта, по которой получен ответ AI (null для разбора по правилам)
+	promptVersion: number | null;
 }
 
-// Создаем клиент OpenAI
-const client = new OpenAI({
-	apiKey: apiKey,
-});
-
-// Конфигурация для retry логики
-const AI_CONFIG = {
-	MAX_RETRIES: 3,
-	RETRY_DELAY: 2000, // 2 секунды
-	REQUEST_TIMEOUT: 60000, // 60 секунд
-};
-
 /**
- * Обрабатывает данные о лиде с помощью AI для создания привлекательного сообщения.
+ * Обрабатывает данные о лиде с помощью AI: модель возвращает JSON,
+ * который валидируется схемой и превращается в сообщение по шаблону.
  * @param leadData - Объект с данными из ЕГРЗ.
  * @param region - Название региона.
- * @returns - Строка с отформатированным сообщением.
+ * @returns - Текст сообщения и структурированные данные лида.
  */
-export async function processLeadWithAI(leadData: IEgrzRecord, region: string): Promise<string> {
+export async function processLeadWithAI(leadData: IEgrzRecord, region: string): Promise<ILeadProcessingResult> {
 	logger.info(`[AI] Запуск обработки AI для записи "${leadData['Номер заключения экспертизы']}"`);
 	
 	const formattedDate = moment(leadData['Дата заключения экспертизы'], 'DD.MM.YYYY').format('DD.MM.YYYY');
 	
-	// Резервный текст на случай сбоя AI
-	const fallbackText = `Новый лид за ${formattedDate} (регион: ${region})
-Номер заключения: ${leadData['Номер заключения экспертизы']}
-Застройщик: ${leadData['Сведения о застройщике, обеспечившем подготовку проектной документации']}`;
+	// Локальный разбор по правилам: резерв на случай сбоя AI и самостоятельный режим без сети
+	const rulesExtraction = extractLeadWithRules(leadData);
+	const fallback: ILeadProcessingResult = {
+		message: renderLeadMessage(leadData, region, formattedDate, rulesExtraction),
+		extraction: rulesExtraction,
+		source: 'rules',
+		promptVersion: null,
+	};
+	
+	if (config.LEAD_FORMATTER === 'rules') {
+		return fallback;
+	}
+	
+	if (!isLLMConfigured()) {
+		logger.debug('[AI] LLM-провайдеры не настроены, используем разбор по правилам');
+		return fallback;
+	}
 	
-	if (!apiKey) {
-		logger.debug('[AI] API ключ отсутствует, возвращаем fallback текст');
-		return fallbackText;
+	if (await isAiBudgetExceeded()) {
+		logger.debug('[AI] Месячный бюджет на AI исчерпан, используем разбор по правилам');
+		return fallback;
 	}
 	
 	// Валидация входных данных
 	if (!leadData['Номер заключения экспертизы']?.trim()) {
 		logger.warn('[AI] Отсутствует номер заключения экспертизы');
-		return fallbackText;
+		return fallback;
 	}
 	
-	// Попытка обработки с retry логикой
-	for (let attempt = 1; attempt <= AI_CONFIG.MAX_RETRIES; attempt++) {
+	const prompt = await getActivePrompt();
+	
+	// Попытка обработки с retry логикой (параметры настраиваются через /settings)
+	const { AI_MAX_RETRIES, AI_RETRY_DELAY } = getSettings();
+	for (let attempt = 1; attempt <= AI_MAX_RETRIES; attempt++) {
 		try {
-			logger.debug(`[AI] Попытка ${attempt}/${AI_CONFIG.MAX_RETRIES} обращения к OpenAI API`);
+			logger.debug(`[AI] Попытка ${attempt}/${AI_MAX_RETRIES} обращения к LLM`);
 			
-			const result = await callOpenAIWithTimeout(leadData, region, formattedDate);
+			const response = await callLLMWithTimeout(leadData, region, prompt.content);
+			const parsed = parseLeadExtraction(response);
 			
-			if (result && validateAIResponse(result)) {
+			if ('data' in parsed) {
 				logger.info(`[AI] Успешно получен и валидирован ответ от AI (попытка ${attempt})`);
-				return result;
+				return {
+					message: renderLeadMessage(leadData, region, formattedDate, parsed.data),
+					extraction: parsed.data,
+					source: 'ai',
+					promptVersion: prompt.version,
+				};
 			} else {
-				logger.warn(`[AI] Получен невалидный ответ от AI (попытка ${attempt})`);
-				if (attempt === AI_CONFIG.MAX_RETRIES) {
+				logger.warn(`[AI] Получен невалидный ответ от AI (попытка ${attempt}): ${parsed.error}`);
+				if (attempt === AI_MAX_RETRIES) {
 					logger.error('[AI] Все попытки исчерпаны, возвращаем fallback');
-					return fallbackText;
+					return fallback;
 				}
 			}
 			
 		} catch (error: any) {
-			const isLastAttempt = attempt === AI_CONFIG.MAX_RETRIES;
+			const isLastAttempt = attempt === AI_MAX_RETRIES;
 			
 			// Анализируем тип ошибки
 			if (error.code === 'insufficient_quota') {
-				logger.error('[AI] КРИТИЧЕСКАЯ ОШИБКА: Превышена квота OpenAI API');
-				return fallbackText;
+				logger.error('[AI] КРИТИЧЕСКАЯ ОШИБКА: Превышена квота LLM API');
+				return fallback;
 			}
 			
 			if (error.code === 'rate_limit_exceeded') {
 				logger.warn(`[AI] Rate limit превышен (попытка ${attempt})`);
 				if (!isLastAttempt) {
-					await sleep(AI_CONFIG.RETRY_DELAY * attempt); // Увеличиваем задержку
+					await sleep(AI_RETRY_DELAY * attempt); // Увеличиваем задержку
 					continue;
 				}
 			}
 			
-			if (error.name === 'AbortError' || error.code === 'ECONNABORTED') {
-				logger.warn(`[AI] Таймаут запроса к OpenAI (попытка ${attempt})`);
+			if (error.name === 'AbortError' || error.code === 'ECONNABORTED' || error instanceof APIConnectionTimeoutError) {
+				logger.warn(`[AI] Таймаут запроса к LLM (попытка ${attempt})`);
 				if (!isLastAttempt) {
-					await sleep(AI_CONFIG.RETRY_DELAY);
+					await sleep(AI_RETRY_DELAY);
 					continue;
 				}
 			}
 			
 			// Логируем ошибку и решаем, стоит ли повторять попытку
-			logger.error(`[AI] Ошибка при обращении к OpenAI (попытка ${attempt}):`, {
+			logger.error(`[AI] Ошибка при обращении к LLM (попытка ${attempt}):`, {
 				message: error.message,
 				code: error.code,
 				type: error.type,
@@ -101,124 +125,47 @@ export async function processLeadWithAI(leadData: IEgrzRecord, region: string):
 			});
 			
 			if (isLastAttempt) {
-				logger.error('[AI] Все попытки обращения к OpenAI исчерпаны, возвращаем fallback');
-				return fallbackText;
+				logger.error('[AI] Все попытки обращения к LLM исчерпаны, возвращаем fallback');
+				return fallback;
 			}
 			
 			// Пауза перед повторной попыткой
-			await sleep(AI_CONFIG.RETRY_DELAY);
+			await sleep(AI_RETRY_DELAY);
 		}
 	}
 	
-	return fallbackText;
+	return fallback;
 }
 
 /**
- * Выполняет запрос к OpenAI с таймаутом
+ * Выполняет запрос к цепочке LLM-провайдеров с таймаутом
  */
-async function callOpenAIWithTimeout(leadData: IEgrzRecord, region: string, formattedDate: string): Promise<string> {
-	const prompt = generatePrompt(leadData, region, formattedDate);
-	
-	// Создаем промис с таймаутом
-	const timeoutPromise = new Promise<never>((_, reject) => {
-		setTimeout(() => reject(new Error('OpenAI request timeout')), AI_CONFIG.REQUEST_TIMEOUT);
-	});
-	
-	const apiPromise = client.chat.completions.create({
-		model: 'gpt-4o-mini',
-		messages: [{ role: 'system', content: prompt }],
-		temperature: 0.1,
-		max_tokens: 1500, // Ограничиваем длину ответа
+async function callLLMWithTimeout(leadData: IEgrzRecord, region: string, systemPrompt: string): Promise<string> {
+	const completion = await completeWithFallback({
+		messages: [
+			{ role: 'system', content: systemPrompt },
+			{ role: 'user', content: formatLeadForPrompt(leadData) },
+		],
+		timeoutMs: getSettings().AI_REQUEST_TIMEOUT,
+		jsonMode: true,
 	});
 	
-	const response = await Promise.race([apiPromise, timeoutPromise]);
-	
-	return response.choices[0]?.message?.content?.trim() || '';
+	logger.debug(`[AI] Ответ получен от провайдера "${completion.provider}" (${completion.model}) за ${completion.latencyMs}мс`);
+	await recordAiUsage(completion, leadData['Номер заключения экспертизы'] || null, region);
+	return completion.content;
 }
 
 /**
- * Генерирует промпт для OpenAI
+ * Формирует пользовательское сообщение с исходными данными записи
  */
-function generatePrompt(leadData: IEgrzRecord, region: string, formattedDate: string): string {
-	return `
-Твоя роль — AI-ассистент, который извлекает, сокращает и форматирует информацию для создания структурированного отчета.
-Твоя главная задача — вернуть ПОЛНОСТЬЮ готовый отчет в указанном формате, строго следуя правилам.
-
-**ПРАВИЛА ФОРМАТИРОВАНИЯ ДАННЫХ:**
-1.  **"Кто подготовил документацию" и "Сведения о застройщике":**
-    * Извлеки и оставь только: сокращенную форму (ООО, АО и т.д.), название в кавычках и ИНН. **Всегда оставляй ИНН.**
-    * **Убирай ОГРН**, если есть ИНН.
-    * **Для ИП:** Оставляй ФИО и ОГРНИП.
-    * Сокращай адрес (убирай "Россия", "МЕСТО НАХОЖДЕНИЯ", лишние детали).
-    * **Пример:** 'ООО "Название" (ИНН: 1234567890, Москва, ул. Ленина, д. 1)'
-    * **Пример для ИП:** 'ИП Иванов И.И. (ОГРНИП: 321098765432101, Вологда, ул. Мира, д. 1)'
-
-2.  **"Наименование и адрес объекта":**
-    * Убери всю информацию после слов "Почтовый адрес:". Оставь только описание объекта.
-
----
-**Верни ТОЛЬКО итоговый отчет и ничего больше.**
+function formatLeadForPrompt(leadData: IEgrzRecord): string {
+	return `Результат: ${leadData['Результат проведенной экспертизы (положительное или отрицательное заключение экспертизы)']}
 
-**ФОРМАТ ИТОГОВОГО ОТЧЕТА:**
-Новый лид за ${formattedDate} (регион: ${region.split(' - ')[0]})
+Кто подготовил документацию: ${leadData['Сведения об индивидуальных предпринимателях и (или) юридических лицах, подготовивших проектную документацию']}
 
-Номер заключения экспертизы: ${leadData['Номер заключения экспертизы']}
-Результат: ${leadData['Результат проведенной экспертизы (положительное или отрицательное заключение экспертизы)']}
+Застройщик: ${leadData['Сведения о застройщике, обеспечившем подготовку проектной документации']}
 
-🏙️ Кто подготовил документацию:
-отформатированные данные из ${leadData['Сведения об индивидуальных предпринимателях и (или) юридических лицах, подготовивших проектную документацию']}
-
-🏠 Сведения о застройщике:
-отформатированные данные из ${leadData['Сведения о застройщике, обеспечившем подготовку проектной документации']}
-
-🏭 Наименование и адрес объекта:
-отформатированные данные из ${leadData['Наименование и адрес (местоположение) объекта капитального строительства, применительно к которому подготовлена проектная документация']}
-`;
-}
-
-/**
- * Валидирует ответ от AI
- */
-function validateAIResponse(response: string): boolean {
-	if (!response || response.length < 50) {
-		logger.warn('[AI] Ответ слишком короткий');
-		return false;
-	}
-	
-	// Проверяем наличие ключевых элементов
-	const requiredElements = [
-		'Номер заключения экспертизы:',
-		'🏙️',
-		'🏠',
-		'🏭',
-	];
-	
-	for (const element of requiredElements) {
-		if (!response.includes(element)) {
-			logger.warn(`[AI] Ответ не содержит обязательный элемент: ${element}`);
-			return false;
-		}
-	}
-	
-	// Проверяем, что ответ не содержит технические фразы от AI
-	const invalidPhrases = [
-		'я не могу',
-		'извините',
-		'не удалось',
-		'ошибка',
-		'как AI',
-		'как искусственный интеллект',
-	];
-	
-	const lowerResponse = response.toLowerCase();
-	for (const phrase of invalidPhrases) {
-		if (lowerResponse.includes(phrase)) {
-			logger.warn(`[AI] Ответ содержит нежелательную фразу: ${phrase}`);
-			return false;
-		}
-	}
-	
-	return true;
+Объект: ${leadData['Наименование и адрес (местоположение) объекта капитального строительства, применительно к которому подготовлена проектная документация']}`;
 }
 
 /**
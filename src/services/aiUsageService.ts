@@ -0,0 +1,166 @@
+import { col, fn, literal, Op } from 'sequelize';
+import { AiUsage } from '../database/models/AiUsage';
+import { logger } from '../logger';
+import { getMoscowDayStart, getTodayMoscowDate, shiftIsoDate, toMoscowDate } from '../utils/dates';
+import { LLMCompletion } from './llmProvider';
+import { notifyAdmins } from './notificationService';
+import { getSettings } from './settingsService';
+
+export interface IAiUsageAggregate {
+	// День (YYYY-MM-DD по Москве) или регион
+	key: string;
+	requests: number;
+	promptTokens: number;
+	completionTokens: number;
+	costUsd: number;
+}
+
+export interface IAiUsageReport {
+	days: IAiUsageAggregate[];
+	regions: IAiUsageAggregate[];
+	monthSpendUsd: number;
+}
+
+// Как часто перечитывать расход за месяц из БД (запросы с других экземпляров)
+const MONTH_SPEND_REFRESH_INTERVAL = 60 * 1000;
+
+let monthSpend: { month: string; totalUsd: number; loadedAt: number } | null = null;
+// Месяц, за который администраторы уже получили уведомление о превышении бюджета
+let budgetAlertMonth: string | null = null;
+
+function getCurrentMonth(): string {
+	return getTodayMoscowDate().slice(0, 7);
+}
+
+/**
+ * Сохраняет расход токенов по одному запросу к LLM.
+ */
+export async function recordAiUsage(completion: LLMCompletion, conclusionNumber: string | null, region: string | null): Promise<void> {
+	try {
+		await AiUsage.create({
+			conclusionNumber,
+			region,
+			provider: completion.provider,
+			model: completion.model,
+			promptTokens: completion.usage?.promptTokens || 0,
+			completionTokens: completion.usage?.completionTokens || 0,
+			costUsd: completion.costUsd,
+			latencyMs: completion.latencyMs,
+		});
+		if (monthSpend && monthSpend.month === getCurrentMonth()) {
+			monthSpend.totalUsd += completion.costUsd;
+		}
+	} catch (error) {
+		// Учет расходов не должен мешать обработке лида
+		logger.error('[AI] Не удалось сохранить расход токенов:', error);
+	}
+}
+
+/**
+ * Возвращает расход на AI с начала текущего месяца (USD).
+ */
+export async function getMonthSpendUsd(): Promise<number> {
+	const month = getCurrentMonth();
+	if (monthSpend && monthSpend.month === month && Date.now() - monthSpend.loadedAt < MONTH_SPEND_REFRESH_INTERVAL) {
+		return monthSpend.totalUsd;
+	}
+
+	const total = await AiUsage.sum('costUsd', {
+		where: { createdAt: { [Op.gte]: getMoscowDayStart(`${month}-01`) } },
+	});
+	monthSpend = { month, totalUsd: Number(total) || 0, loadedAt: Date.now() };
+	return monthSpend.totalUsd;
+}
+
+/**
+ * Проверяет, исчерпан ли месячный бюджет на AI.
+ * При первом превышении в месяце уведомляет администраторов.
+ */
+export async function isAiBudgetExceeded(): Promise<boolean> {
+	const budget = getSettings().AI_MONTHLY_BUDGET_USD;
+	if (budget <= 0) return false;
+
+	let spent: number;
+	try {
+		spent = await getMonthSpendUsd();
+	} catch (error) {
+		logger.error('[AI] Не удалось получить расход за месяц, бюджет не проверяется:', error);
+		return false;
+	}
+	if (spent < budget) return false;
+
+	const month = getCurrentMonth();
+	if (budgetAlertMonth !== month) {
+		budgetAlertMonth = month;
+		logger.warn(`[AI] Месячный бюджет исчерпан: $${spent.toFixed(2)} из $${budget.toFixed(2)}, лиды оформляются по правилам`);
+		await notifyAdmins(`⚠️ Месячный бюджет на AI исчерпан: $${spent.toFixed(2)} из $${budget.toFixed(2)}.\nДо конца месяца лиды оформляются без AI. Изменить бюджет: /settings AI_MONTHLY_BUDGET_USD <сумма>`);
+	}
+	return true;
+}
+
+// Строка отчета с агрегатами COUNT/SUM; MySQL возвращает суммы строками
+function toAggregate(row: AiUsage, key: string): IAiUsageAggregate {
+	return {
+		key,
+		requests: Number(row.get('requests')) || 0,
+		promptTokens: Number(row.get('promptTokens')) || 0,
+		completionTokens: Number(row.get('completionTokens')) || 0,
+		costUsd: Number(row.get('costUsd')) || 0,
+	};
+}
+
+function addAggregate(target: IAiUsageAggregate, source: IAiUsageAggregate): void {
+	target.requests += source.requests;
+	target.promptTokens += source.promptTokens;
+	target.completionTokens += source.completionTokens;
+	target.costUsd += source.costUsd;
+}
+
+/**
+ * Собирает отчет о расходах на AI за последние days дней: по дням и по регионам.
+ */
+export async function getAiUsageReport(days: number): Promise<IAiUsageReport> {
+	const where = { createdAt: { [Op.gte]: getMoscowDayStart(shiftIsoDate(getTodayMoscowDate(), -(days - 1))) } };
+	const totals = {
+		requests: fn('COUNT', col('id')),
+		promptTokens: fn('SUM', col('promptTokens')),
+		completionTokens: fn('SUM', col('completionTokens')),
+		costUsd: fn('SUM', col('costUsd')),
+	};
+	const totalAttributes = Object.entries(totals).map(([alias, expression]) => [expression, alias] as [typeof expression, string]);
+	// createdAt хранится в UTC: группируем по часам, а по московским дням раскладываем уже здесь
+	const hourExpression = fn('DATE_FORMAT', col('createdAt'), '%Y-%m-%d %H:00:00');
+
+	const [hourRows, regionRows, monthSpendUsd] = await Promise.all([
+		AiUsage.findAll({
+			where,
+			attributes: [[hourExpression, 'hour'], ...totalAttributes],
+			group: [hourExpression],
+		}),
+		AiUsage.findAll({
+			where,
+			attributes: ['region', ...totalAttributes],
+			group: ['region'],
+			order: [[literal('costUsd'), 'DESC']],
+		}),
+		getMonthSpendUsd(),
+	]);
+
+	const dayTotals = new Map<string, IAiUsageAggregate>();
+	for (const row of hourRows) {
+		const day = toMoscowDate(new Date(`${String(row.get('hour')).replace(' ', 'T')}Z`));
+		const aggregate = toAggregate(row, day);
+		const existing = dayTotals.get(day);
+		if (existing) {
+			addAggregate(existing, aggregate);
+		} else {
+			dayTotals.set(day, aggregate);
+		}
+	}
+
+	return {
+		days: Array.from(dayTotals.values()).sort((a, b) => b.key.localeCompare(a.key)),
+		regions: regionRows.map(row => toAggregate(row, row.region || 'без региона')),
+		monthSpendUsd,
+	};
+}
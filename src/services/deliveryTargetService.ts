@@ -0,0 +1,103 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { DeliveryTarget, DeliveryTargetType } from '../database/models/DeliveryTarget';
+import { OutboundMessage } from '../database/models/OutboundMessage';
+import { logger } from '../logger';
+import { IUserConfig } from '../types/config.types';
+import { notifyAdmins } from './notificationService';
+import { parseUserConfig } from './userConfigService';
+
+const TARGET_CHAT_TYPES: DeliveryTargetType[] = ['group', 'supergroup', 'channel'];
+
+/**
+ * Группы и каналы в Telegram имеют отрицательные ID, личные чаты — положительные.
+ */
+export function isGroupChatId(chatId: number): boolean {
+	return chatId < 0;
+}
+
+export function isDeliveryTargetType(chatType: string): chatType is DeliveryTargetType {
+	return (TARGET_CHAT_TYPES as string[]).includes(chatType);
+}
+
+export function formatDeliveryTarget(target: DeliveryTarget): string {
+	return `${target.title ? `«${target.title}» ` : ''}(ID: ${target.chatId})`;
+}
+
+export async function getDeliveryTarget(chatId: number): Promise<DeliveryTarget | null> {
+	return DeliveryTarget.findOne({ where: { chatId } });
+}
+
+export async function listDeliveryTargets(): Promise<DeliveryTarget[]> {
+	return DeliveryTarget.findAll({ order: [['id', 'ASC']] });
+}
+
+/**
+ * Регистрирует группу или канал как получателя рассылки (или возобновляет отключенный).
+ */
+export async function registerDeliveryTarget(chat: TelegramBot.Chat, addedBy: number): Promise<DeliveryTarget> {
+	if (!isDeliveryTargetType(chat.type)) {
+		throw new Error(`Чат типа "${chat.type}" не может быть получателем рассылки`);
+	}
+
+	const existing = await getDeliveryTarget(chat.id);
+	if (existing) {
+		await existing.update({ status: 'active', title: chat.title || existing.title, chatType: chat.type });
+		return existing;
+	}
+
+	const target = await DeliveryTarget.create({
+		chatId: chat.id,
+		chatType: chat.type,
+		title: chat.title || null,
+		configData: JSON.stringify({ regions: [], filters: [] }),
+		addedBy,
+	});
+	logger.info(`[TARGETS] Чат ${formatDeliveryTarget(target)} зарегистрирован администратором ${addedBy}`);
+	return target;
+}
+
+export async function removeDeliveryTarget(chatId: number): Promise<boolean> {
+	const deleted = await DeliveryTarget.destroy({ where: { chatId } });
+	if (deleted > 0) {
+		logger.info(`[TARGETS] Чат ${chatId} удален из получателей рассылки`);
+	}
+	return deleted > 0;
+}
+
+export async function saveDeliveryTargetConfig(target: DeliveryTarget, targetConfig: IUserConfig): Promise<void> {
+	await target.update({ configData: JSON.stringify(targetConfig) });
+}
+
+/**
+ * Подписки активных групп и каналов для рассылки, ключ — ID чата.
+ */
+export async function getDeliveryTargetSubscriptions(): Promise<Map<number, IUserConfig>> {
+	const targets = await DeliveryTarget.findAll({
+		where: { status: 'active' },
+		attributes: ['chatId', 'configData'],
+	});
+	return new Map(targets.map(target => [Number(target.chatId), parseUserConfig(target.configData)]));
+}
+
+/**
+ * Отключает рассылку в чат, из которого бота удалили или где он лишился прав.
+ */
+export async function markDeliveryTargetUnreachable(chatId: number, reason: string): Promise<void> {
+	try {
+		const target = await getDeliveryTarget(chatId);
+		if (!target || target.status === 'blocked') {
+			return;
+		}
+
+		await target.update({ status: 'blocked' });
+		await OutboundMessage.update(
+			{ status: 'failed', lastError: reason },
+			{ where: { chatId, status: 'pending' } },
+		);
+
+		logger.warn(`[TARGETS] Рассылка в чат ${formatDeliveryTarget(target)} отключена: ${reason}`);
+		await notifyAdmins(`⚠️ Бот больше не может писать в чат ${formatDeliveryTarget(target)}, рассылка отключена.\nПричина: ${reason}\nЧтобы возобновить ее, отправьте /target on в этом чате.`);
+	} catch (error) {
+		logger.error(`[TARGETS] Не удалось отключить рассылку в чат ${chatId}:`, error);
+	}
+}
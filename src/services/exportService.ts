@@ -0,0 +1,252 @@
+import { stringify } from 'csv-stringify/sync';
+import ExcelJS from 'exceljs';
+import { literal, Op, WhereOptions } from 'sequelize';
+import { getRegionValueByCode } from '../constants/regions';
+import { sequelize } from '../database';
+import { Lead } from '../database/models/Lead';
+import { LeadStatus, LeadStatusValue } from '../database/models/LeadStatus';
+import { ParsedData } from '../database/models/ParsedData';
+import { ProcessedLead } from '../database/models/ProcessedLead';
+import { getMoscowDayStart, isValidIsoDate, shiftIsoDate } from '../utils/dates';
+import { LEAD_STATUS_LABELS, parseLeadStatus } from './leadStatusService';
+import { CONSTRUCTION_TYPE_LABELS, OBJECT_TYPE_LABELS } from './leadTemplate';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface IExportCriteria {
+	format: ExportFormat;
+	// Период доставки лида пользователю (YYYY-MM-DD, по Москве)
+	dateFrom: string | null;
+	dateTo: string | null;
+	region: string | null;
+	status: LeadStatusValue | null;
+	// Выгрузка по всем пользователям (только для администраторов)
+	allUsers: boolean;
+}
+
+export interface IExportFile {
+	content: Buffer;
+	filename: string;
+	contentType: string;
+	rowCount: number;
+	// Выгрузка обрезана лимитом строк
+	truncated: boolean;
+}
+
+// Предохранитель от слишком больших файлов для Telegram
+const MAX_EXPORT_ROWS = 20000;
+const LOOKUP_BATCH_SIZE = 1000;
+
+const EXPORT_COLUMNS = [
+	{ key: 'deliveredAt', header: 'Дата доставки', width: 18 },
+	{ key: 'userId', header: 'Пользователь', width: 14 },
+	{ key: 'conclusionNumber', header: 'Номер заключения', width: 28 },
+	{ key: 'conclusionDate', header: 'Дата заключения', width: 14 },
+	{ key: 'region', header: 'Регион', width: 28 },
+	{ key: 'result', header: 'Результат', width: 24 },
+	{ key: 'developer', header: 'Застройщик', width: 60 },
+	{ key: 'preparer', header: 'Проектировщик', width: 60 },
+	{ key: 'object', header: 'Объект', width: 80 },
+	{ key: 'objectType', header: 'Тип объекта', width: 16 },
+	{ key: 'constructionType', header: 'Вид работ', width: 22 },
+	{ key: 'score', header: 'Оценка', width: 10 },
+	{ key: 'status', header: 'Статус', width: 14 },
+] as const;
+
+type ExportRow = Record<typeof EXPORT_COLUMNS[number]['key'], string | number | null>;
+
+/**
+ * Разбирает аргументы /export: "xlsx с:2026-09-01 по:2026-09-30 регион:77 статус:сделка все".
+ */
+export function parseExportQuery(input: string): { criteria: IExportCriteria } | { error: string } {
+	const criteria: IExportCriteria = { format: 'csv', dateFrom: null, dateTo: null, region: null, status: null, allUsers: false };
+
+	for (const token of input.trim().split(/\s+/).filter(Boolean)) {
+		const lowerToken = token.toLowerCase();
+		if (lowerToken === 'csv' || lowerToken === 'xlsx') {
+			criteria.format = lowerToken;
+			continue;
+		}
+		if (lowerToken === 'все') {
+			criteria.allUsers = true;
+			continue;
+		}
+
+		const match = token.match(/^(регион|с|по|статус):(.+)$/i);
+		if (!match) {
+			return { error: `Не распознан параметр "${token}".` };
+		}
+
+		const [, key, value] = match;
+		switch (key.toLowerCase()) {
+			case 'регион':
+				criteria.region = getRegionValueByCode(value);
+				if (!criteria.region) return { error: `Регион с кодом ${value} не найден.` };
+				break;
+			case 'статус':
+				criteria.status = parseLeadStatus(value);
+				if (!criteria.status) return { error: `Неизвестный статус "${value}". Доступны: ${Object.values(LEAD_STATUS_LABELS).join(', ')}.` };
+				break;
+			default:
+				if (!isValidIsoDate(value)) return { error: `Дата "${value}" должна быть в формате ГГГГ-ММ-ДД.` };
+				if (key.toLowerCase() === 'с') criteria.dateFrom = value;
+				else criteria.dateTo = value;
+		}
+	}
+	return { criteria };
+}
+
+function formatMoscowDateTime(date: Date): string {
+	return date.toLocaleString('ru-RU', { timeZone: 'Europe/Moscow', day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+async function findInBatches<T>(keys: string[], lookup: (batch: string[]) => Promise<T[]>): Promise<T[]> {
+	const results: T[] = [];
+	for (let i = 0; i < keys.length; i += LOOKUP_BATCH_SIZE) {
+		results.push(...await lookup(keys.slice(i, i + LOOKUP_BATCH_SIZE)));
+	}
+	return results;
+}
+
+/**
+ * Собирает строки выгрузки: доставленные лиды (parsed_data) с данными из leads, processed_leads и lead_statuses.
+ */
+async function collectExportRows(userId: number, criteria: IExportCriteria): Promise<{ rows: ExportRow[]; truncated: boolean }> {
+	const deliveryConditions: WhereOptions[] = [];
+	if (!criteria.allUsers) {
+		deliveryConditions.push({ userId });
+	}
+	if (criteria.dateFrom) {
+		deliveryConditions.push({ createdAt: { [Op.gte]: getMoscowDayStart(criteria.dateFrom) } });
+	}
+	if (criteria.dateTo) {
+		deliveryConditions.push({ createdAt: { [Op.lt]: getMoscowDayStart(shiftIsoDate(criteria.dateTo, 1)) } });
+	}
+	// Фильтры по региону и статусу применяются в запросе до лимита, иначе выгрузка окажется неполной
+	if (criteria.region) {
+		deliveryConditions.push(literal(
+			`EXISTS (SELECT 1 FROM leads WHERE leads.conclusionNumber = ParsedData.dataContent AND leads.region = ${sequelize.escape(criteria.region)})`,
+		));
+	}
+	if (criteria.status) {
+		deliveryConditions.push(literal(
+			'EXISTS (SELECT 1 FROM lead_statuses WHERE lead_statuses.userId = ParsedData.userId'
+			+ ` AND lead_statuses.conclusionNumber = ParsedData.dataContent AND lead_statuses.status = ${sequelize.escape(criteria.status)})`,
+		));
+	}
+
+	const deliveries = await ParsedData.findAll({
+		where: { [Op.and]: deliveryConditions },
+		order: [['createdAt', 'DESC']],
+		limit: MAX_EXPORT_ROWS + 1,
+		raw: true,
+	});
+	const truncated = deliveries.length > MAX_EXPORT_ROWS;
+	const limitedDeliveries = deliveries.slice(0, MAX_EXPORT_ROWS);
+
+	const conclusionNumbers = Array.from(new Set(limitedDeliveries.map(delivery => delivery.dataContent)));
+	const [leads, processedLeads, statuses] = await Promise.all([
+		findInBatches(conclusionNumbers, batch => Lead.findAll({ where: { conclusionNumber: { [Op.in]: batch } } })),
+		findInBatches(conclusionNumbers, batch => ProcessedLead.findAll({
+			where: { conclusionNumber: { [Op.in]: batch } },
+			attributes: ['conclusionNumber', 'objectType', 'constructionType', 'score'],
+		})),
+		findInBatches(conclusionNumbers, batch => LeadStatus.findAll({
+			where: { conclusionNumber: { [Op.in]: batch }, ...(criteria.allUsers ? {} : { userId }) },
+		})),
+	]);
+
+	const leadsByNumber = new Map(leads.map(lead => [lead.conclusionNumber, lead]));
+	const processedByNumber = new Map(processedLeads.map(processed => [processed.conclusionNumber, processed]));
+	const statusByKey = new Map(statuses.map(status => [`${status.userId}:${status.conclusionNumber}`, status.status]));
+
+	const rows: ExportRow[] = [];
+	for (const delivery of limitedDeliveries) {
+		const lead = leadsByNumber.get(delivery.dataContent);
+		const processed = processedByNumber.get(delivery.dataContent);
+		const status = statusByKey.get(`${delivery.userId}:${delivery.dataContent}`) || null;
+
+		rows.push({
+			deliveredAt: delivery.createdAt ? formatMoscowDateTime(new Date(delivery.createdAt)) : null,
+			userId: Number(delivery.userId),
+			conclusionNumber: delivery.dataContent,
+			conclusionDate: lead?.conclusionDate ? lead.conclusionDate.split('-').reverse().join('.') : null,
+			region: lead?.region || lead?.subject || null,
+			result: lead?.result || null,
+			developer: lead?.developer || null,
+			preparer: lead?.preparer || null,
+			object: lead?.object || null,
+			objectType: processed?.objectType ? OBJECT_TYPE_LABELS[processed.objectType] : null,
+			constructionType: processed?.constructionType ? CONSTRUCTION_TYPE_LABELS[processed.constructionType] : null,
+			score: processed?.score ?? null,
+			status: status ? LEAD_STATUS_LABELS[status] : null,
+		});
+	}
+
+	return { rows, truncated };
+}
+
+// Excel и LibreOffice считают формулой ячейку, начинающуюся с этих символов
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Экранирует строки из реестра ЕГРЗ и ответов AI, чтобы при открытии файла они не выполнились как формулы.
+ */
+function escapeFormulaCells(row: ExportRow): ExportRow {
+	const escaped = { ...row };
+	for (const column of EXPORT_COLUMNS) {
+		const value = escaped[column.key];
+		if (typeof value === 'string' && FORMULA_PREFIX.test(value)) {
+			escaped[column.key] = `'${value}`;
+		}
+	}
+	return escaped;
+}
+
+async function buildXlsx(rows: ExportRow[]): Promise<Buffer> {
+	const workbook = new ExcelJS.Workbook();
+	const sheet = workbook.addWorksheet('Лиды');
+	sheet.columns = EXPORT_COLUMNS.map(column => ({ key: column.key, header: column.header, width: column.width }));
+	sheet.getRow(1).font = { bold: true };
+	sheet.views = [{ state: 'frozen', ySplit: 1 }];
+	sheet.addRows(rows);
+	return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function buildCsv(rows: ExportRow[]): Buffer {
+	const csv = stringify(rows, {
+		header: true,
+		columns: EXPORT_COLUMNS.map(column => ({ key: column.key, header: column.header })),
+		// Разделитель ";" открывается в русском Excel без импорта
+		delimiter: ';',
+	});
+	// BOM, чтобы Excel распознал UTF-8
+	return Buffer.from(`\uFEFF${csv}`, 'utf8');
+}
+
+/**
+ * Формирует файл выгрузки доставленных лидов для пользователя (или по всем пользователям).
+ */
+export async function buildLeadExport(userId: number, criteria: IExportCriteria): Promise<IExportFile> {
+	const { rows: rawRows, truncated } = await collectExportRows(userId, criteria);
+	const rows = rawRows.map(escapeFormulaCells);
+	const stamp = new Date().toISOString().slice(0, 10);
+
+	if (criteria.format === 'xlsx') {
+		return {
+			content: await buildXlsx(rows),
+			filename: `leads-${stamp}.xlsx`,
+			contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+			rowCount: rows.length,
+			truncated,
+		};
+	}
+
+	return {
+		content: buildCsv(rows),
+		filename: `leads-${stamp}.csv`,
+		contentType: 'text/csv',
+		rowCount: rows.length,
+		truncated,
+	};
+}
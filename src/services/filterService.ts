@@ -0,0 +1,223 @@
+import { getRegionValueByCode } from '../constants/regions';
+import { ILeadFilterRule, IUserConfig, LeadFilterField, LeadObjectType } from '../types/config.types';
+import { IEgrzRecord } from '../types/egrz.types';
+import { ILeadClassification, LEAD_OBJECT_TYPES } from './leadExtraction';
+import { OBJECT_TYPE_LABELS } from './leadTemplate';
+
+// Соответствие поля фильтра колонке из выгрузки ЕГРЗ
+const FILTER_FIELD_COLUMNS: Record<LeadFilterField, keyof IEgrzRecord> = {
+	object: 'Наименование и адрес (местоположение) объекта капитального строительства, применительно к которому подготовлена проектная документация',
+	developer: 'Сведения о застройщике, обеспечившем подготовку проектной документации',
+	preparer: 'Сведения об индивидуальных предпринимателях и (или) юридических лицах, подготовивших проектную документацию',
+};
+
+// Названия полей, которые пользователь вводит в боте
+export const FILTER_FIELD_LABELS: Record<LeadFilterField, string> = {
+	object: 'объект',
+	developer: 'застройщик',
+	preparer: 'проектировщик',
+};
+
+const REGEX_PATTERN = /^\/(.+)\/([gimsuy]*)$/;
+// Выражения проверяются для каждой записи выгрузки, поэтому их длина ограничена
+const MAX_PATTERN_LENGTH = 100;
+
+// Кеш скомпилированных выражений, чтобы не пересоздавать их для каждой записи
+const matcherCache = new Map<string, (value: string) => boolean>();
+
+/**
+ * Ищет в выражении конструкции с экспоненциальным перебором: квантификатор над группой,
+ * внутри которой уже есть квантификатор или альтернатива, например (a+)+, (\w*)* или (a|aa)+,
+ * а также обратные ссылки.
+ */
+function hasCatastrophicBacktracking(source: string): boolean {
+	// Для каждой открытой группы запоминаем, есть ли внутри нее квантификатор или альтернатива
+	const groups: boolean[] = [];
+	let lastGroupIsAmbiguous = false;
+
+	for (let i = 0; i < source.length; i++) {
+		const char = source[i];
+		const isQuantifier = char === '*' || char === '+' || char === '?' || (char === '{' && /^\{\d+(,\d*)?\}/.test(source.slice(i)));
+
+		if (isQuantifier) {
+			if (lastGroupIsAmbiguous) return true;
+			if (groups.length > 0) groups[groups.length - 1] = true;
+		}
+		lastGroupIsAmbiguous = false;
+
+		if (char === '\\') {
+			if (/[1-9k]/.test(source[i + 1] || '')) return true;
+			i++;
+		} else if (char === '[') {
+			// Содержимое класса символов не влияет на перебор
+			i++;
+			while (i < source.length && source[i] !== ']') {
+				if (source[i] === '\\') i++;
+				i++;
+			}
+		} else if (char === '|') {
+			// Альтернатива вне групп безопасна, внутри группы ее ветви могут пересекаться
+			if (groups.length > 0) groups[groups.length - 1] = true;
+		} else if (char === '(') {
+			groups.push(false);
+			// Пропускаем модификатор группы (?:, (?=, (?<name>
+			if (source[i + 1] === '?') i++;
+		} else if (char === ')') {
+			const groupIsAmbiguous = groups.pop() || false;
+			if (groupIsAmbiguous && groups.length > 0) groups[groups.length - 1] = true;
+			lastGroupIsAmbiguous = groupIsAmbiguous;
+		}
+	}
+	return false;
+}
+
+function compilePattern(pattern: string): (value: string) => boolean {
+	const cached = matcherCache.get(pattern);
+	if (cached) return cached;
+
+	if (pattern.length > MAX_PATTERN_LENGTH) {
+		throw new Error(`Шаблон длиннее ${MAX_PATTERN_LENGTH} символов`);
+	}
+
+	let matcher: (value: string) => boolean;
+	const regexMatch = pattern.match(REGEX_PATTERN);
+	if (regexMatch) {
+		if (hasCatastrophicBacktracking(regexMatch[1])) {
+			throw new Error('Квантификаторы над группами с квантификатором или альтернативой и обратные ссылки в шаблоне не поддерживаются');
+		}
+		// Флаг g делает test() зависимым от lastIndex, поэтому отбрасываем его
+		const flags = regexMatch[2].replace('g', '');
+		const regex = new RegExp(regexMatch[1], flags.includes('i') ? flags : flags + 'i');
+		matcher = (value) => regex.test(value);
+	} else {
+		const keyword = pattern.toLowerCase();
+		matcher = (value) => value.toLowerCase().includes(keyword);
+	}
+
+	matcherCache.set(pattern, matcher);
+	return matcher;
+}
+
+/**
+ * Проверяет, что шаблон является корректным ключевым словом или регулярным выражением.
+ */
+export function isValidFilterPattern(pattern: string): boolean {
+	if (!pattern.trim()) return false;
+	try {
+		compilePattern(pattern);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Проверяет запись региона на соответствие правилам пользователя.
+ * Для каждого поля с include-правилами должно совпасть хотя бы одно из них,
+ * любое совпавшее exclude-правило отбрасывает запись.
+ */
+export function matchesLeadFilters(record: IEgrzRecord, region: string, filters?: ILeadFilterRule[]): boolean {
+	if (!filters || filters.length === 0) return true;
+
+	const includeResults = new Map<LeadFilterField, boolean>();
+
+	for (const rule of filters) {
+		// Правило с регионом действует только для этой подписки
+		if (rule.region && rule.region !== region) continue;
+
+		const value = record[FILTER_FIELD_COLUMNS[rule.field]] || '';
+		let matched: boolean;
+		try {
+			matched = compilePattern(rule.pattern)(value);
+		} catch {
+			// Некорректное правило не должно блокировать рассылку
+			continue;
+		}
+
+		if (rule.mode === 'exclude') {
+			if (matched) return false;
+		} else {
+			includeResults.set(rule.field, (includeResults.get(rule.field) || false) || matched);
+		}
+	}
+
+	for (const matched of includeResults.values()) {
+		if (!matched) return false;
+	}
+	return true;
+}
+
+/**
+ * Разбирает строку вида "+застройщик ПИК", "-объект /гараж|склад/"
+ * или "77: +застройщик ПИК" для правила только по одной подписке.
+ */
+export function parseFilterRule(input: string): ILeadFilterRule | null {
+	const match = input.trim().match(/^(?:(\d{2})\s*:\s*)?([+-])\s*(\S+)\s+(.+)$/);
+	if (!match) return null;
+
+	const region = match[1] ? getRegionValueByCode(match[1]) : null;
+	const fieldLabel = match[3].toLowerCase();
+	const field = (Object.keys(FILTER_FIELD_LABELS) as LeadFilterField[])
+		.find(key => FILTER_FIELD_LABELS[key] === fieldLabel);
+	const pattern = match[4].trim();
+
+	if ((match[1] && !region) || !field || !isValidFilterPattern(pattern)) return null;
+
+	const rule: ILeadFilterRule = {
+		field,
+		mode: match[2] === '+' ? 'include' : 'exclude',
+		pattern,
+	};
+	if (region) {
+		rule.region = region;
+	}
+	return rule;
+}
+
+export function formatFilterRule(rule: ILeadFilterRule): string {
+	const modeLabel = rule.mode === 'include' ? 'только' : 'кроме';
+	const regionLabel = rule.region ? `[${rule.region}] ` : '';
+	return `${regionLabel}${modeLabel} ${FILTER_FIELD_LABELS[rule.field]}: ${rule.pattern}`;
+}
+
+/**
+ * Убирает правила фильтров, привязанные к регионам, которых больше нет в подписке.
+ */
+export function removeFiltersOfUnsubscribedRegions(userConfig: IUserConfig): void {
+	userConfig.filters = (userConfig.filters || []).filter(rule => !rule.region || userConfig.regions.includes(rule.region));
+}
+
+/**
+ * Проверяет классификацию лида на соответствие категориям и минимальной оценке пользователя.
+ * Лиды без классификации или без оценки (разбор по правилам) не отбрасываются.
+ */
+export function matchesLeadClassification(classification: ILeadClassification | null, userConfig?: IUserConfig): boolean {
+	if (!classification || !userConfig) return true;
+
+	if (userConfig.categories && userConfig.categories.length > 0 && !userConfig.categories.includes(classification.objectType)) {
+		return false;
+	}
+	if (userConfig.minScore && classification.score !== null && classification.score < userConfig.minScore) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Разбирает список категорий вида "жилой, социальный". Возвращает null, если есть неизвестная категория.
+ */
+export function parseObjectTypes(input: string): LeadObjectType[] | null {
+	const labels = input.toLowerCase().split(/[,\s]+/).filter(Boolean);
+	const objectTypes: LeadObjectType[] = [];
+
+	for (const label of labels) {
+		const objectType = LEAD_OBJECT_TYPES.find(type => OBJECT_TYPE_LABELS[type] === label);
+		if (!objectType) return null;
+		if (!objectTypes.includes(objectType)) objectTypes.push(objectType);
+	}
+	return objectTypes.length > 0 ? objectTypes : null;
+}
+
+export function formatObjectTypes(objectTypes: LeadObjectType[]): string {
+	return objectTypes.map(type => OBJECT_TYPE_LABELS[type]).join(', ');
+}
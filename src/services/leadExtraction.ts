@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { LeadObjectType } from '../types/config.types';
+
+// =================================================================================
+// СХЕМА СТРУКТУРИРОВАННЫХ ДАННЫХ ЛИДА (ответ LLM)
+// =================================================================================
+const companySchema = z.object({
+	// organization — юрлицо, individual — ИП
+	kind: z.enum(['organization', 'individual']).default('organization'),
+	// Сокращенная организационно-правовая форма: ООО, АО, ПАО, ГКУ и т.п. (для ИП — "ИП")
+	orgForm: z.string().nullish(),
+	// Название без кавычек или ФИО индивидуального предпринимателя
+	name: z.string().min(1),
+	inn: z.string().regex(/^(\d{10}|\d{12})$/).nullish(),
+	ogrn: z.string().regex(/^\d{13}$/).nullish(),
+	ogrnip: z.string().regex(/^\d{15}$/).nullish(),
+	// Сокращенный адрес без "Россия" и служебных пометок
+	shortAddress: z.string().nullish(),
+});
+
+export const LEAD_OBJECT_TYPES = ['residential', 'industrial', 'social', 'infrastructure', 'other'] as const satisfies readonly LeadObjectType[];
+
+const classificationSchema = z.object({
+	objectType: z.enum(LEAD_OBJECT_TYPES),
+	constructionType: z.enum(['new', 'reconstruction']),
+	// Оценка привлекательности лида 0–100 (null, если не оценивалась)
+	score: z.number().int().min(0).max(100).nullable(),
+});
+
+export const leadExtractionSchema = z.object({
+	// Результат экспертизы: положительное или отрицательное заключение
+	result: z.string().min(1),
+	// Кто подготовил проектную документацию
+	preparers: z.array(companySchema),
+	// Застройщики
+	developers: z.array(companySchema),
+	object: z.object({
+		// Описание объекта без почтового адреса
+		description: z.string().min(1),
+		shortAddress: z.string().nullish(),
+	}),
+	// Классификация объекта; отсутствует в ответах по промптам без нее
+	classification: classificationSchema.optional(),
+});
+
+export type ILeadCompany = z.infer<typeof companySchema>;
+export type ILeadClassification = z.infer<typeof classificationSchema>;
+export type ILeadExtraction = z.infer<typeof leadExtractionSchema>;
+
+/**
+ * Извлекает JSON из ответа модели и валидирует его схемой.
+ * Модели иногда оборачивают JSON в ```json ... ```, поэтому берем содержимое между первой { и последней }.
+ */
+export function parseLeadExtraction(raw: string): { data: ILeadExtraction } | { error: string } {
+	const start = raw.indexOf('{');
+	const end = raw.lastIndexOf('}');
+	if (start === -1 || end <= start) {
+		return { error: 'Ответ не содержит JSON-объекта' };
+	}
+
+	let json: unknown;
+	try {
+		json = JSON.parse(raw.slice(start, end + 1));
+	} catch (error: any) {
+		return { error: `Некорректный JSON: ${error.message}` };
+	}
+
+	const parsed = leadExtractionSchema.safeParse(json);
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+		return { error: `JSON не соответствует схеме: ${issues.join('; ')}` };
+	}
+	return { data: parsed.data };
+}
@@ -0,0 +1,173 @@
+import { Op, WhereOptions } from 'sequelize';
+import { getRegionValueByCode, getRegionValueBySubject } from '../constants/regions';
+import { Lead } from '../database/models/Lead';
+import { ProcessedLead } from '../database/models/ProcessedLead';
+import { logger } from '../logger';
+import { IEgrzRecord } from '../types/egrz.types';
+import { isValidIsoDate, parseRuDate } from '../utils/dates';
+import { renderLeadMessage } from './leadTemplate';
+import { extractLeadWithRules } from './ruleBasedExtractor';
+
+export interface ILeadSearchCriteria {
+	// Подстрока для поиска по застройщику, проектировщику, объекту и номеру заключения
+	query: string;
+	// Регионы в формате подписки; пусто — все регионы
+	regions: string[];
+	dateFrom: string | null;
+	dateTo: string | null;
+}
+
+export interface ILeadSearchPage {
+	total: number;
+	leads: Lead[];
+}
+
+// Колонка субъекта РФ (SubjectRf) в CSV-выгрузке; ищем по префиксу заголовка
+const SUBJECT_COLUMN_PREFIX = 'Субъект';
+
+// Размер пачки для bulk upsert
+const SAVE_BATCH_SIZE = 500;
+
+// При повторной встрече записи обновляются все поля, кроме момента первого обнаружения
+const UPDATABLE_FIELDS = ['conclusionDate', 'subject', 'region', 'result', 'developer', 'preparer', 'object', 'rawData', 'updatedAt'] as const;
+
+export function getRecordSubject(record: IEgrzRecord): string {
+	const row = record as unknown as Record<string, string>;
+	const subjectColumn = Object.keys(row).find(column => column.startsWith(SUBJECT_COLUMN_PREFIX));
+	return subjectColumn ? row[subjectColumn] || '' : '';
+}
+
+/**
+ * Сохраняет записи из выгрузки ЕГРЗ в таблицу leads (upsert по номеру заключения).
+ * @param fallbackRegion - регион запроса; используется, если регион не определяется по SubjectRf.
+ */
+export async function saveLeads(records: IEgrzRecord[], fallbackRegion: string | null): Promise<void> {
+	const rows = records
+		.filter(record => record['Номер заключения экспертизы']?.trim())
+		.map(record => {
+			const subject = getRecordSubject(record) || null;
+			return {
+				conclusionNumber: record['Номер заключения экспертизы'].trim(),
+				conclusionDate: parseRuDate(record['Дата заключения экспертизы']),
+				subject,
+				region: (subject && getRegionValueBySubject(subject)) || fallbackRegion,
+				result: record['Результат проведенной экспертизы (положительное или отрицательное заключение экспертизы)'] || null,
+				developer: record['Сведения о застройщике, обеспечившем подготовку проектной документации'] || null,
+				preparer: record['Сведения об индивидуальных предпринимателях и (или) юридических лицах, подготовивших проектную документацию'] || null,
+				object: record['Наименование и адрес (местоположение) объекта капитального строительства, применительно к которому подготовлена проектная документация'] || null,
+				rawData: JSON.stringify(record),
+			};
+		});
+
+	try {
+		for (let i = 0; i < rows.length; i += SAVE_BATCH_SIZE) {
+			await Lead.bulkCreate(rows.slice(i, i + SAVE_BATCH_SIZE), {
+				updateOnDuplicate: [...UPDATABLE_FIELDS],
+			});
+		}
+	} catch (error) {
+		// Архив записей не должен мешать рассылке
+		logger.error(`[LEADS] Не удалось сохранить ${rows.length} записей в таблицу leads:`, error);
+	}
+}
+
+/**
+ * Восстанавливает запись ЕГРЗ из сохраненного лида.
+ */
+export function toEgrzRecord(lead: Lead): IEgrzRecord {
+	return JSON.parse(lead.rawData);
+}
+
+/**
+ * Разбирает аргументы /search: "ПИК регион:77 с:2026-09-01 по:2026-09-30".
+ * Возвращает текст ошибки, если какой-то из фильтров некорректен.
+ */
+export function parseSearchQuery(input: string): { criteria: ILeadSearchCriteria } | { error: string } {
+	const criteria: ILeadSearchCriteria = { query: '', regions: [], dateFrom: null, dateTo: null };
+	const words: string[] = [];
+
+	for (const token of input.trim().split(/\s+/).filter(Boolean)) {
+		const match = token.match(/^(регион|с|по):(.+)$/i);
+		if (!match) {
+			words.push(token);
+			continue;
+		}
+
+		const [, key, value] = match;
+		if (key.toLowerCase() === 'регион') {
+			const region = getRegionValueByCode(value);
+			if (!region) return { error: `Регион с кодом ${value} не найден.` };
+			criteria.regions.push(region);
+		} else if (!isValidIsoDate(value)) {
+			return { error: `Дата "${value}" должна быть в формате ГГГГ-ММ-ДД.` };
+		} else if (key.toLowerCase() === 'с') {
+			criteria.dateFrom = value;
+		} else {
+			criteria.dateTo = value;
+		}
+	}
+
+	criteria.query = words.join(' ');
+	if (criteria.query.length < 2) {
+		return { error: 'Поисковый запрос должен содержать хотя бы 2 символа.' };
+	}
+	return { criteria };
+}
+
+function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+/**
+ * Ищет сохраненные лиды по подстроке (без учета регистра, по collation таблицы).
+ */
+export async function searchLeads(criteria: ILeadSearchCriteria, offset: number, limit: number): Promise<ILeadSearchPage> {
+	const conditions: WhereOptions[] = [];
+	// Пустой запрос (REST API) выбирает все лиды по остальным фильтрам
+	if (criteria.query) {
+		const pattern = `%${escapeLike(criteria.query)}%`;
+		conditions.push({
+			[Op.or]: [
+				{ developer: { [Op.like]: pattern } },
+				{ preparer: { [Op.like]: pattern } },
+				{ object: { [Op.like]: pattern } },
+				{ conclusionNumber: { [Op.like]: pattern } },
+			],
+		});
+	}
+
+	if (criteria.regions.length > 0) {
+		conditions.push({ region: { [Op.in]: criteria.regions } });
+	}
+	if (criteria.dateFrom) {
+		conditions.push({ conclusionDate: { [Op.gte]: criteria.dateFrom } });
+	}
+	if (criteria.dateTo) {
+		conditions.push({ conclusionDate: { [Op.lte]: criteria.dateTo } });
+	}
+
+	const { count, rows } = await Lead.findAndCountAll({
+		where: { [Op.and]: conditions },
+		order: [['conclusionDate', 'DESC'], ['id', 'DESC']],
+		offset,
+		limit,
+	});
+	return { total: count, leads: rows };
+}
+
+/**
+ * Возвращает текст сообщения о лиде: из кеша обработанных сообщений
+ * или, если лид не обрабатывался AI, собранный по правилам.
+ */
+export async function getLeadMessage(lead: Lead): Promise<string> {
+	const cached = await ProcessedLead.findOne({
+		where: { conclusionNumber: lead.conclusionNumber },
+		attributes: ['processedMessage'],
+	});
+	if (cached) {
+		return cached.processedMessage;
+	}
+
+	const record = toEgrzRecord(lead);
+	return renderLeadMessage(record, lead.region || lead.subject || 'не указан', record['Дата заключения экспертизы'], extractLeadWithRules(record));
+}
@@ -0,0 +1,148 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { Op } from 'sequelize';
+import { LeadStatus, LeadStatusValue } from '../database/models/LeadStatus';
+import { ProcessedLead } from '../database/models/ProcessedLead';
+import { logger } from '../logger';
+
+export interface IPipelineLead {
+	conclusionNumber: string;
+	updatedAt: Date;
+	// Краткое описание объекта из структурированных данных лида
+	description: string | null;
+}
+
+export interface IPipelineGroup {
+	status: LeadStatusValue;
+	total: number;
+	leads: IPipelineLead[];
+}
+
+// Порядок статусов в кнопках и в /pipeline
+export const LEAD_STATUSES: LeadStatusValue[] = ['in_progress', 'contacted', 'deal', 'not_interested'];
+
+export const LEAD_STATUS_LABELS: Record<LeadStatusValue, string> = {
+	in_progress: 'В работу',
+	not_interested: 'Не интересно',
+	contacted: 'Связались',
+	deal: 'Сделка',
+};
+
+export const LEAD_STATUS_ICONS: Record<LeadStatusValue, string> = {
+	in_progress: '🛠',
+	not_interested: '🚫',
+	contacted: '📞',
+	deal: '🤝',
+};
+
+const CALLBACK_PREFIX = 'ls';
+// Telegram ограничивает callback_data 64 байтами
+const MAX_CALLBACK_DATA_BYTES = 64;
+const STATUS_LINE_PREFIX = '📌 Статус:';
+const DESCRIPTION_MAX_LENGTH = 80;
+
+function isLeadStatus(value: string): value is LeadStatusValue {
+	return (LEAD_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Распознает статус по ключу (deal) или названию кнопки без учета регистра и пробелов ("сделка", "не_интересно").
+ */
+export function parseLeadStatus(input: string): LeadStatusValue | null {
+	const normalized = input.toLowerCase().replace(/[\s_]+/g, '');
+	if (isLeadStatus(input.toLowerCase())) return input.toLowerCase() as LeadStatusValue;
+	return LEAD_STATUSES.find(status => LEAD_STATUS_LABELS[status].toLowerCase().replace(/\s+/g, '') === normalized) || null;
+}
+
+/**
+ * Строит inline-кнопки статусов для сообщения о лиде.
+ * Возвращает null, если номер заключения не помещается в callback_data.
+ */
+export function buildLeadStatusKeyboard(conclusionNumber: string, current: LeadStatusValue | null = null): TelegramBot.InlineKeyboardMarkup | null {
+	const buttons = LEAD_STATUSES.map(status => ({
+		text: `${status === current ? '✅ ' : ''}${LEAD_STATUS_LABELS[status]}`,
+		callback_data: `${CALLBACK_PREFIX}:${status}:${conclusionNumber}`,
+	}));
+
+	if (buttons.some(button => Buffer.byteLength(button.callback_data) > MAX_CALLBACK_DATA_BYTES)) {
+		logger.warn(`[LEADS] Номер заключения "${conclusionNumber}" слишком длинный для inline-кнопок`);
+		return null;
+	}
+	return { inline_keyboard: [buttons.slice(0, 2), buttons.slice(2)] };
+}
+
+export function parseLeadStatusCallback(data: string | undefined): { status: LeadStatusValue; conclusionNumber: string } | null {
+	const match = (data || '').match(/^([a-z]+):([a-z_]+):(.+)$/);
+	if (!match || match[1] !== CALLBACK_PREFIX || !isLeadStatus(match[2])) return null;
+	return { status: match[2], conclusionNumber: match[3] };
+}
+
+/**
+ * Добавляет к тексту сообщения строку со статусом, заменяя предыдущую.
+ */
+export function applyStatusToMessageText(text: string, status: LeadStatusValue): string {
+	const baseText = text.replace(new RegExp(`\n\n${STATUS_LINE_PREFIX}[^\n]*`), '');
+	return `${baseText}\n\n${STATUS_LINE_PREFIX} ${LEAD_STATUS_ICONS[status]} ${LEAD_STATUS_LABELS[status]}`;
+}
+
+export async function setLeadStatus(userId: number, conclusionNumber: string, status: LeadStatusValue): Promise<void> {
+	await LeadStatus.upsert({ userId, conclusionNumber, status });
+	logger.info(`[LEADS] Пользователь ${userId} установил статус "${status}" для лида "${conclusionNumber}"`);
+}
+
+export async function getLeadStatus(userId: number, conclusionNumber: string): Promise<LeadStatusValue | null> {
+	const row = await LeadStatus.findOne({ where: { userId, conclusionNumber } });
+	return row ? row.status : null;
+}
+
+async function getLeadDescriptions(conclusionNumbers: string[]): Promise<Map<string, string>> {
+	if (conclusionNumbers.length === 0) return new Map();
+
+	const leads = await ProcessedLead.findAll({
+		where: { conclusionNumber: { [Op.in]: conclusionNumbers } },
+		attributes: ['conclusionNumber', 'extractedData'],
+	});
+
+	const descriptions = new Map<string, string>();
+	for (const lead of leads) {
+		try {
+			const description: string | undefined = lead.extractedData ? JSON.parse(lead.extractedData).object?.description : undefined;
+			if (description) {
+				descriptions.set(lead.conclusionNumber, description.length > DESCRIPTION_MAX_LENGTH
+					? `${description.slice(0, DESCRIPTION_MAX_LENGTH)}…`
+					: description);
+			}
+		} catch (e) { /* ignore */ }
+	}
+	return descriptions;
+}
+
+/**
+ * Собирает воронку пользователя: количество лидов по статусам и последние лиды в каждом статусе.
+ */
+export async function getLeadPipeline(userId: number, limitPerStatus: number = 5): Promise<IPipelineGroup[]> {
+	const counts = await LeadStatus.count({ where: { userId }, group: ['status'] });
+	const totals = new Map(counts.map(row => [String(row.status), Number(row.count)]));
+
+	const groups: IPipelineGroup[] = [];
+	for (const status of LEAD_STATUSES) {
+		const total = totals.get(status) || 0;
+		if (total === 0) continue;
+
+		const rows = await LeadStatus.findAll({
+			where: { userId, status },
+			order: [['updatedAt', 'DESC']],
+			limit: limitPerStatus,
+		});
+		groups.push({
+			status,
+			total,
+			leads: rows.map(row => ({ conclusionNumber: row.conclusionNumber, updatedAt: row.updatedAt, description: null })),
+		});
+	}
+
+	const descriptions = await getLeadDescriptions(groups.flatMap(group => group.leads.map(lead => lead.conclusionNumber)));
+	for (const lead of groups.flatMap(group => group.leads)) {
+		lead.description = descriptions.get(lead.conclusionNumber) || null;
+	}
+	return groups;
+}
@@ -0,0 +1,79 @@
+import { LeadConstructionType, LeadObjectType } from '../types/config.types';
+import { IEgrzRecord } from '../types/egrz.types';
+import { ILeadClassification, ILeadCompany, ILeadExtraction } from './leadExtraction';
+
+export const OBJECT_TYPE_LABELS: Record<LeadObjectType, string> = {
+	residential: 'жилой',
+	industrial: 'промышленный',
+	social: 'социальный',
+	infrastructure: 'инфраструктура',
+	other: 'прочее',
+};
+
+export const CONSTRUCTION_TYPE_LABELS: Record<LeadConstructionType, string> = {
+	new: 'новое строительство',
+	reconstruction: 'реконструкция',
+};
+
+/**
+ * Форматирует компанию по правилам отчета:
+ * 'ООО "Название" (ИНН: 1234567890, Москва, ул. Ленина, д. 1)'
+ * 'ИП Иванов И.И. (ОГРНИП: 321098765432101, Вологда, ул. Мира, д. 1)'
+ */
+export function formatCompany(company: ILeadCompany): string {
+	const details: string[] = [];
+
+	if (company.kind === 'individual') {
+		if (company.ogrnip) details.push(`ОГРНИП: ${company.ogrnip}`);
+		else if (company.inn) details.push(`ИНН: ${company.inn}`);
+	} else if (company.inn) {
+		details.push(`ИНН: ${company.inn}`);
+	} else if (company.ogrn) {
+		// ОГРН показываем, только если нет ИНН
+		details.push(`ОГРН: ${company.ogrn}`);
+	}
+	if (company.shortAddress) {
+		details.push(company.shortAddress);
+	}
+
+	const title = company.kind === 'individual'
+		? `ИП ${company.name}`
+		: [company.orgForm, `"${company.name.replace(/^["«]+|["»]+$/g, '')}"`].filter(Boolean).join(' ');
+
+	return details.length > 0 ? `${title} (${details.join(', ')})` : title;
+}
+
+function formatCompanies(companies: ILeadCompany[]): string {
+	return companies.length > 0 ? companies.map(formatCompany).join('\n') : 'Не указано';
+}
+
+export function formatClassification(classification: ILeadClassification): string {
+	const parts = [OBJECT_TYPE_LABELS[classification.objectType], CONSTRUCTION_TYPE_LABELS[classification.constructionType]];
+	if (classification.score !== null) {
+		parts.push(`оценка ${classification.score}/100`);
+	}
+	return parts.join(', ');
+}
+
+/**
+ * Собирает текст сообщения о лиде из структурированных данных.
+ */
+export function renderLeadMessage(record: IEgrzRecord, region: string, formattedDate: string, extraction: ILeadExtraction): string {
+	const objectText = extraction.object.shortAddress
+		? `${extraction.object.description}, ${extraction.object.shortAddress}`
+		: extraction.object.description;
+
+	return `Новый лид за ${formattedDate} (регион: ${region.split(' - ')[0]})
+
+Номер заключения экспертизы: ${record['Номер заключения экспертизы']}
+Результат: ${extraction.result}
+
+🏙️ Кто подготовил документацию:
+${formatCompanies(extraction.preparers)}
+
+🏠 Сведения о застройщике:
+${formatCompanies(extraction.developers)}
+
+🏭 Наименование и адрес объекта:
+${objectText}${extraction.classification ? `\n\n🏷️ ${formatClassification(extraction.classification)}` : ''}`;
+}
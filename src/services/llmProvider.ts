@@ -0,0 +1,140 @@
+import OpenAI from 'openai';
+import { config, LLMProviderConfig } from '../config';
+import { logger } from '../logger';
+
+export interface LLMMessage {
+	role: 'system' | 'user' | 'assistant';
+	content: string;
+}
+
+export interface LLMCompletionRequest {
+	messages: LLMMessage[];
+	timeoutMs: number;
+	// Требовать от модели ответ в виде JSON-объекта (response_format: json_object)
+	jsonMode?: boolean;
+}
+
+export interface LLMUsage {
+	promptTokens: number;
+	completionTokens: number;
+}
+
+export interface LLMCompletion {
+	content: string;
+	provider: string;
+	model: string;
+	usage: LLMUsage | null;
+	// Стоимость запроса в USD (0, если провайдер не вернул usage)
+	costUsd: number;
+	latencyMs: number;
+}
+
+export interface LLMProvider {
+	readonly name: string;
+	readonly model: string;
+	complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * Провайдер с OpenAI-совместимым API: OpenAI или локальный сервер по baseURL.
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+	public readonly name: string;
+	public readonly model: string;
+	private readonly client: OpenAI;
+	private readonly temperature: number;
+	private readonly maxTokens: number;
+	private readonly inputPricePer1M: number;
+	private readonly outputPricePer1M: number;
+
+	constructor(providerConfig: LLMProviderConfig) {
+		this.name = providerConfig.name;
+		this.model = providerConfig.model;
+		this.temperature = providerConfig.temperature ?? config.LLM_TEMPERATURE;
+		this.maxTokens = providerConfig.maxTokens ?? config.LLM_MAX_TOKENS;
+		this.inputPricePer1M = providerConfig.inputPricePer1M ?? config.LLM_INPUT_PRICE_PER_1M;
+		this.outputPricePer1M = providerConfig.outputPricePer1M ?? config.LLM_OUTPUT_PRICE_PER_1M;
+		this.client = new OpenAI({
+			// Локальным серверам ключ обычно не нужен, но клиент требует непустое значение
+			apiKey: providerConfig.apiKey || 'not-required',
+			baseURL: providerConfig.baseURL,
+			// Повторные попытки выполняет aiService
+			maxRetries: 0,
+		});
+	}
+
+	async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+		const startedAt = Date.now();
+		const response = await this.client.chat.completions.create(
+			{
+				model: this.model,
+				messages: request.messages,
+				temperature: this.temperature,
+				max_tokens: this.maxTokens, // Ограничиваем длину ответа
+				...(request.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+			},
+			{ timeout: request.timeoutMs },
+		);
+
+		const usage: LLMUsage | null = response.usage
+			? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+			: null;
+
+		return {
+			content: response.choices[0]?.message?.content?.trim() || '',
+			provider: this.name,
+			model: response.model || this.model,
+			usage,
+			costUsd: usage
+				? (usage.promptTokens * this.inputPricePer1M + usage.completionTokens * this.outputPricePer1M) / 1_000_000
+				: 0,
+			latencyMs: Date.now() - startedAt,
+		};
+	}
+}
+
+function buildProviderConfigs(): LLMProviderConfig[] {
+	if (config.LLM_PROVIDERS) {
+		return config.LLM_PROVIDERS;
+	}
+	if (!config.OPENAI_API_KEY && !config.OPENAI_BASE_URL) {
+		return [];
+	}
+	return [{
+		name: config.OPENAI_BASE_URL ? 'openai-compatible' : 'openai',
+		apiKey: config.OPENAI_API_KEY,
+		baseURL: config.OPENAI_BASE_URL,
+		model: config.LLM_MODEL,
+	}];
+}
+
+const providers: LLMProvider[] = buildProviderConfigs().map(providerConfig => new OpenAICompatibleProvider(providerConfig));
+
+if (providers.length === 0) {
+	logger.warn('ВНИМАНИЕ: не настроен ни один LLM-провайдер (OPENAI_API_KEY, OPENAI_BASE_URL или LLM_PROVIDERS). AI-обработка будет отключена.');
+} else {
+	logger.info(`[AI] LLM-провайдеры: ${providers.map(provider => `${provider.name} (${provider.model})`).join(' → ')}`);
+}
+
+export function isLLMConfigured(): boolean {
+	return providers.length > 0;
+}
+
+/**
+ * Выполняет запрос по цепочке провайдеров: при ошибке провайдера запрос уходит следующему.
+ * Если все провайдеры недоступны, пробрасывается ошибка последнего.
+ */
+export async function completeWithFallback(request: LLMCompletionRequest): Promise<LLMCompletion> {
+	let lastError: unknown = new Error('LLM-провайдеры не настроены');
+
+	for (const provider of providers) {
+		try {
+			return await provider.complete(request);
+		} catch (error: any) {
+			lastError = error;
+			logger.warn(`[AI] Провайдер "${provider.name}" (${provider.model}) вернул ошибку: ${error.message}`);
+		}
+	}
+
+	throw lastError;
+}
@@ -0,0 +1,143 @@
+import * as crypto from 'crypto';
+import os from 'os';
+import { Op, UniqueConstraintError } from 'sequelize';
+import { SchedulerLock } from '../database/models/SchedulerLock';
+import { logger } from '../logger';
+
+// Уникальный идентификатор текущего процесса как владельца блокировок
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+export interface ILockOptions {
+	// Время жизни блокировки без продления (мс)
+	ttlMs: number;
+	// Интервал продления блокировки, пока задача выполняется (мс)
+	heartbeatMs: number;
+	// Сколько ждать освобождения занятой блокировки (0 — не ждать)
+	waitTimeoutMs?: number;
+	// Интервал повторных попыток захвата при ожидании (мс)
+	retryIntervalMs?: number;
+}
+
+export type LockResult<T> = { acquired: true; result: T } | { acquired: false };
+
+export interface IActiveLock {
+	ownerId: string;
+	acquiredAt: Date;
+	expiresAt: Date;
+	isOwnedByThisProcess: boolean;
+}
+
+/**
+ * Пытается захватить блокировку один раз.
+ * Свободная блокировка создается вставкой строки, занятая перехватывается только после истечения срока.
+ */
+async function tryAcquireLock(name: string, ttlMs: number): Promise<boolean> {
+	const now = new Date();
+	const expiresAt = new Date(now.getTime() + ttlMs);
+
+	try {
+		await SchedulerLock.create({ name, ownerId: INSTANCE_ID, acquiredAt: now, expiresAt, heartbeatAt: now });
+		return true;
+	} catch (error) {
+		if (!(error instanceof UniqueConstraintError)) {
+			throw error;
+		}
+	}
+
+	const existing = await SchedulerLock.findByPk(name);
+	const [affected] = await SchedulerLock.update(
+		{ ownerId: INSTANCE_ID, acquiredAt: now, expiresAt, heartbeatAt: now },
+		{ where: { name, expiresAt: { [Op.lt]: now } } },
+	);
+
+	if (affected > 0 && existing) {
+		logger.warn(`[LOCK] Перехвачена устаревшая блокировка "${name}" процесса ${existing.ownerId} (последний heartbeat: ${existing.heartbeatAt.toISOString()})`);
+	}
+	return affected > 0;
+}
+
+async function releaseLock(name: string): Promise<void> {
+	try {
+		await SchedulerLock.destroy({ where: { name, ownerId: INSTANCE_ID } });
+	} catch (error) {
+		// Неснятая блокировка истечет сама по ttl
+		logger.error(`[LOCK] Не удалось освободить блокировку "${name}":`, error);
+	}
+}
+
+/**
+ * Продлевает блокировку, пока задача выполняется. Если блокировку перехватил другой процесс
+ * или ее не удалось продлить до истечения срока, задача получает сигнал отмены.
+ */
+function startHeartbeat(name: string, options: ILockOptions, controller: AbortController): NodeJS.Timeout {
+	let leaseExpiresAt = Date.now() + options.ttlMs;
+
+	return setInterval(async () => {
+		if (controller.signal.aborted) return;
+		try {
+			const now = new Date();
+			const [affected] = await SchedulerLock.update(
+				{ expiresAt: new Date(now.getTime() + options.ttlMs), heartbeatAt: now },
+				{ where: { name, ownerId: INSTANCE_ID } },
+			);
+			if (affected === 0) {
+				logger.error(`[LOCK] Блокировка "${name}" потеряна: ее перехватил другой процесс, задача будет остановлена`);
+				controller.abort(new Error(`Блокировка "${name}" перехвачена другим процессом`));
+				return;
+			}
+			leaseExpiresAt = now.getTime() + options.ttlMs;
+		} catch (error) {
+			logger.error(`[LOCK] Ошибка продления блокировки "${name}":`, error);
+			if (Date.now() >= leaseExpiresAt) {
+				controller.abort(new Error(`Блокировка "${name}" истекла: не удалось продлить ее вовремя`));
+			}
+		}
+	}, options.heartbeatMs);
+}
+
+/**
+ * Выполняет задачу под распределенной блокировкой в MySQL.
+ * Пока задача выполняется, блокировка продлевается; если процесс упал,
+ * она истекает через ttlMs и может быть перехвачена другим экземпляром.
+ * Задача получает сигнал, который срабатывает при потере блокировки,
+ * и должна проверять его между шагами, чтобы не выполняться параллельно с новым владельцем.
+ */
+export async function withLock<T>(name: string, options: ILockOptions, task: (signal: AbortSignal) => Promise<T>): Promise<LockResult<T>> {
+	const deadline = Date.now() + (options.waitTimeoutMs || 0);
+	const retryInterval = options.retryIntervalMs || 5000;
+
+	while (!(await tryAcquireLock(name, options.ttlMs))) {
+		if (Date.now() + retryInterval > deadline) {
+			return { acquired: false };
+		}
+		await new Promise(resolve => setTimeout(resolve, retryInterval));
+	}
+
+	logger.debug(`[LOCK] Блокировка "${name}" захвачена процессом ${INSTANCE_ID}`);
+	const controller = new AbortController();
+	const heartbeat = startHeartbeat(name, options, controller);
+
+	try {
+		const result = await task(controller.signal);
+		return { acquired: true, result };
+	} finally {
+		clearInterval(heartbeat);
+		await releaseLock(name);
+	}
+}
+
+/**
+ * Возвращает информацию о действующей блокировке или null, если она свободна или истекла.
+ */
+export async function getActiveLock(name: string): Promise<IActiveLock | null> {
+	const lock = await SchedulerLock.findByPk(name);
+	if (!lock || lock.expiresAt.getTime() < Date.now()) {
+		return null;
+	}
+	return {
+		ownerId: lock.ownerId,
+		acquiredAt: lock.acquiredAt,
+		expiresAt: lock.expiresAt,
+		isOwnedByThisProcess: lock.ownerId === INSTANCE_ID,
+	};
+}
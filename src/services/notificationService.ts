@@ -0,0 +1,19 @@
+import { logger } from '../logger';
+
+// Отправка уведомления администраторам; регистрируется модулем бота при запуске,
+// чтобы сервисы могли уведомлять администраторов, не импортируя бота
+export type AdminNotifier = (text: string) => Promise<void>;
+
+let adminNotifier: AdminNotifier | null = null;
+
+export function setAdminNotifier(notifier: AdminNotifier): void {
+	adminNotifier = notifier;
+}
+
+export async function notifyAdmins(text: string): Promise<void> {
+	if (!adminNotifier) {
+		logger.warn(`[NOTIFY] Уведомление администраторам не отправлено, бот не запущен: ${text}`);
+		return;
+	}
+	await adminNotifier(text);
+}
@@ -0,0 +1,252 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { Op } from 'sequelize';
+import { LeadAssignment } from '../database/models/LeadAssignment';
+import { Organization } from '../database/models/Organization';
+import { OrganizationMember, OrganizationRole } from '../database/models/OrganizationMember';
+import { User } from '../database/models/User';
+import { logger } from '../logger';
+import { IUserConfig } from '../types/config.types';
+import { getUserConfig, parseUserConfig } from './userConfigService';
+
+export interface IMembership {
+	organization: Organization;
+	role: OrganizationRole;
+}
+
+export interface ITeamMember {
+	userId: number;
+	username: string | null;
+	role: OrganizationRole;
+}
+
+export interface IOrganizationSummary {
+	id: number;
+	name: string;
+	memberCount: number;
+	regionCount: number;
+}
+
+export type AssignmentCallback =
+	| { action: 'menu'; conclusionNumber: string }
+	| { action: 'back'; conclusionNumber: string }
+	| { action: 'to'; assigneeId: number; conclusionNumber: string };
+
+const CALLBACK_PREFIX = 'as';
+// Telegram ограничивает callback_data 64 байтами
+const MAX_CALLBACK_DATA_BYTES = 64;
+const ASSIGNEE_LINE_PREFIX = '👤 Ответственный:';
+
+export function formatMemberName(member: { userId: number; username: string | null }): string {
+	return member.username ? `@${member.username}` : `ID ${member.userId}`;
+}
+
+// =================================================================================
+// КОМАНДЫ И УЧАСТНИКИ
+// =================================================================================
+export async function getMembership(userId: number): Promise<IMembership | null> {
+	const member = await OrganizationMember.findOne({ where: { userId } });
+	if (!member) return null;
+
+	const organization = await Organization.findByPk(member.organizationId);
+	return organization ? { organization, role: member.role } : null;
+}
+
+/**
+ * Подписки может менять пользователь без команды или руководитель своей команды.
+ */
+export async function canEditSubscriptions(userId: number): Promise<boolean> {
+	const member = await OrganizationMember.findOne({ where: { userId } });
+	return !member || member.role === 'lead';
+}
+
+/**
+ * Создает команду с руководителем. Начальные подписки команды копируются из личных подписок руководителя.
+ */
+export async function createOrganization(name: string, leadUserId: number, createdBy: number): Promise<{ organization: Organization } | { error: string }> {
+	if (await OrganizationMember.findOne({ where: { userId: leadUserId } })) {
+		return { error: 'Пользователь уже состоит в команде.' };
+	}
+
+	const organization = await Organization.create({
+		name,
+		configData: JSON.stringify(await getUserConfig(leadUserId)),
+		createdBy,
+	});
+	await OrganizationMember.create({ organizationId: organization.id, userId: leadUserId, role: 'lead' });
+
+	logger.info(`[TEAMS] Создана команда #${organization.id} "${name}", руководитель ${leadUserId}`);
+	return { organization };
+}
+
+export async function deleteOrganization(organizationId: number): Promise<boolean> {
+	const deleted = await Organization.destroy({ where: { id: organizationId } });
+	if (deleted === 0) return false;
+
+	await OrganizationMember.destroy({ where: { organizationId } });
+	await LeadAssignment.destroy({ where: { organizationId } });
+	logger.info(`[TEAMS] Команда #${organizationId} удалена`);
+	return true;
+}
+
+/**
+ * Добавляет пользователя в команду. Возвращает текст ошибки или null при успехе.
+ */
+export async function addMember(organizationId: number, userId: number, role: OrganizationRole = 'member'): Promise<string | null> {
+	const existing = await OrganizationMember.findOne({ where: { userId } });
+	if (existing && existing.organizationId !== organizationId) {
+		return 'Пользователь уже состоит в другой команде.';
+	}
+	if (existing) {
+		if (existing.role === role) return 'Пользователь уже состоит в команде.';
+		await existing.update({ role });
+		return null;
+	}
+
+	await OrganizationMember.create({ organizationId, userId, role });
+	logger.info(`[TEAMS] Пользователь ${userId} добавлен в команду #${organizationId} (${role})`);
+	return null;
+}
+
+export async function removeMember(organizationId: number, userId: number): Promise<boolean> {
+	const deleted = await OrganizationMember.destroy({ where: { organizationId, userId } });
+	if (deleted > 0) {
+		logger.info(`[TEAMS] Пользователь ${userId} исключен из команды #${organizationId}`);
+	}
+	return deleted > 0;
+}
+
+export async function listMembers(organizationId: number): Promise<ITeamMember[]> {
+	const members = await OrganizationMember.findAll({ where: { organizationId }, order: [['createdAt', 'ASC']] });
+	const users = await User.findAll({
+		where: { userId: { [Op.in]: members.map(member => member.userId) } },
+		attributes: ['userId', 'username'],
+	});
+	const usernames = new Map(users.map(user => [Number(user.userId), user.username]));
+
+	return members.map(member => ({
+		userId: Number(member.userId),
+		username: usernames.get(Number(member.userId)) || null,
+		role: member.role,
+	}));
+}
+
+export async function listOrganizations(): Promise<IOrganizationSummary[]> {
+	const organizations = await Organization.findAll({ order: [['id', 'ASC']] });
+	const counts = await OrganizationMember.count({ group: ['organizationId'] });
+	const memberCounts = new Map(counts.map(row => [Number(row.organizationId), Number(row.count)]));
+
+	return organizations.map(organization => ({
+		id: organization.id,
+		name: organization.name,
+		memberCount: memberCounts.get(organization.id) || 0,
+		regionCount: parseUserConfig(organization.configData).regions.length,
+	}));
+}
+
+/**
+ * Возвращает Telegram ID участников команды пользователя (или только его самого, если он не в команде).
+ */
+export async function getSubscriberIds(userId: number): Promise<number[]> {
+	const member = await OrganizationMember.findOne({ where: { userId } });
+	if (!member) return [userId];
+
+	const members = await OrganizationMember.findAll({ where: { organizationId: member.organizationId }, attributes: ['userId'] });
+	return members.map(row => Number(row.userId));
+}
+
+/**
+ * Подписки для рассылки: каждый участник команды получает лиды по подпискам своей команды.
+ */
+export async function getTeamSubscriptions(): Promise<Map<number, IUserConfig>> {
+	const [organizations, members] = await Promise.all([
+		Organization.findAll({ attributes: ['id', 'configData'] }),
+		OrganizationMember.findAll({ attributes: ['organizationId', 'userId'] }),
+	]);
+	const configs = new Map(organizations.map(organization => [organization.id, parseUserConfig(organization.configData)]));
+
+	const subscriptions = new Map<number, IUserConfig>();
+	for (const member of members) {
+		const teamConfig = configs.get(member.organizationId);
+		if (teamConfig) {
+			subscriptions.set(Number(member.userId), teamConfig);
+		}
+	}
+	return subscriptions;
+}
+
+/**
+ * Отбирает из списка пользователей тех, кто состоит в команде (им показывается кнопка назначения).
+ */
+export async function getTeamMemberIds(userIds: number[]): Promise<Set<number>> {
+	if (userIds.length === 0) return new Set();
+
+	const members = await OrganizationMember.findAll({
+		where: { userId: { [Op.in]: userIds } },
+		attributes: ['userId'],
+		raw: true,
+	});
+	return new Set(members.map(member => Number(member.userId)));
+}
+
+// =================================================================================
+// НАЗНАЧЕНИЕ ЛИДОВ
+// =================================================================================
+function fitsCallbackData(data: string): boolean {
+	return Buffer.byteLength(data) <= MAX_CALLBACK_DATA_BYTES;
+}
+
+/**
+ * Добавляет к клавиатуре лида кнопку назначения ответственного.
+ */
+export function withAssignmentButton(keyboard: TelegramBot.InlineKeyboardMarkup | null, conclusionNumber: string): TelegramBot.InlineKeyboardMarkup | null {
+	const callbackData = `${CALLBACK_PREFIX}:menu:${conclusionNumber}`;
+	if (!keyboard || !fitsCallbackData(callbackData)) return keyboard;
+	return { inline_keyboard: [...keyboard.inline_keyboard, [{ text: '👤 Назначить', callback_data: callbackData }]] };
+}
+
+/**
+ * Строит клавиатуру выбора ответственного: по кнопке на участника команды и кнопку возврата.
+ */
+export function buildAssigneeKeyboard(members: ITeamMember[], conclusionNumber: string, currentAssigneeId: number | null): TelegramBot.InlineKeyboardMarkup {
+	const memberButtons = members
+		.map(member => ({
+			text: `${member.userId === currentAssigneeId ? '✅ ' : ''}${formatMemberName(member)}`,
+			callback_data: `${CALLBACK_PREFIX}:to:${member.userId}:${conclusionNumber}`,
+		}))
+		.filter(button => fitsCallbackData(button.callback_data));
+
+	const rows: TelegramBot.InlineKeyboardButton[][] = [];
+	for (let i = 0; i < memberButtons.length; i += 2) {
+		rows.push(memberButtons.slice(i, i + 2));
+	}
+	rows.push([{ text: '↩️ Назад', callback_data: `${CALLBACK_PREFIX}:back:${conclusionNumber}` }]);
+	return { inline_keyboard: rows };
+}
+
+export function parseAssignmentCallback(data: string | undefined): AssignmentCallback | null {
+	const match = (data || '').match(/^([a-z]+):(menu|back|to):(.+)$/);
+	if (!match || match[1] !== CALLBACK_PREFIX) return null;
+
+	if (match[2] === 'to') {
+		const target = match[3].match(/^(-?\d+):(.+)$/);
+		return target ? { action: 'to', assigneeId: Number(target[1]), conclusionNumber: target[2] } : null;
+	}
+	return { action: match[2] as 'menu' | 'back', conclusionNumber: match[3] };
+}
+
+/**
+ * Добавляет к тексту сообщения строку с ответственным, заменяя предыдущую.
+ */
+export function applyAssigneeToMessageText(text: string, assigneeName: string): string {
+	const baseText = text.replace(new RegExp(`\n\n${ASSIGNEE_LINE_PREFIX}[^\n]*`), '');
+	return `${baseText}\n\n${ASSIGNEE_LINE_PREFIX} ${assigneeName}`;
+}
+
+export async function getLeadAssignment(organizationId: number, conclusionNumber: string): Promise<LeadAssignment | null> {
+	return LeadAssignment.findOne({ where: { organizationId, conclusionNumber } });
+}
+
+export async function assignLead(organizationId: number, conclusionNumber: string, assigneeId: number, assignedBy: number): Promise<void> {
+	await LeadAssignment.upsert({ organizationId, conclusionNumber, assigneeId, assignedBy });
+	logger.info(`[TEAMS] Лид "${conclusionNumber}" в команде #${organizationId} назначен пользователю ${assigneeId} (назначил ${assignedBy})`);
+}
@@ -0,0 +1,305 @@
+import * as crypto from 'crypto';
+import TelegramBot from 'node-telegram-bot-api';
+import { col, fn, Op } from 'sequelize';
+import { OutboundMessage } from '../database/models/OutboundMessage';
+import { ParsedData } from '../database/models/ParsedData';
+import { logger } from '../logger';
+import { isChatUnreachableError } from '../utils/telegram';
+import { isGroupChatId } from './deliveryTargetService';
+import { markChatUnreachable } from './userService';
+
+// =================================================================================
+// КОНФИГУРАЦИЯ ОЧЕРЕДИ ИСХОДЯЩИХ СООБЩЕНИЙ
+// =================================================================================
+const OUTBOX_CONFIG = {
+	// Интервал опроса очереди (мс)
+	POLL_INTERVAL: 1000,
+	// Сколько чатов обслуживать за один проход (по одному сообщению на чат)
+	BATCH_SIZE: 200,
+	// Срок, на который воркер захватывает сообщения прохода (мс)
+	CLAIM_TTL: 2 * 60 * 1000,
+	// Глобальный лимит Telegram ~30 сообщений/с, оставляем запас
+	GLOBAL_MESSAGES_PER_SECOND: 25,
+	// Не чаще одного сообщения в секунду в один чат
+	PER_CHAT_INTERVAL: 1000,
+	// В группы и каналы Telegram пропускает не более 20 сообщений в минуту
+	GROUP_CHAT_INTERVAL: 3000,
+	// После стольких неудачных попыток сообщение помечается как failed
+	MAX_ATTEMPTS: 8,
+	// Экспоненциальная задержка между попытками (мс)
+	BASE_BACKOFF: 5000,
+	MAX_BACKOFF: 30 * 60 * 1000,
+};
+
+// Отправка сообщения в Telegram; передается при запуске воркера, чтобы сервис не зависел от модуля бота
+export type MessageSender = (chatId: number, text: string, options?: TelegramBot.SendMessageOptions) => Promise<unknown>;
+
+let sendMessage: MessageSender | null = null;
+let workerTimer: NodeJS.Timeout | null = null;
+let isTickRunning = false;
+// До этого момента вся отправка приостановлена (ответ 429 с retry_after)
+let globalPausedUntil = 0;
+const lastSentAtByChat = new Map<number, number>();
+
+// =================================================================================
+// ПОСТАНОВКА В ОЧЕРЕДЬ
+// =================================================================================
+export async function enqueueMessage(
+	chatId: number,
+	text: string,
+	conclusionNumber: string | null = null,
+	replyMarkup: TelegramBot.InlineKeyboardMarkup | null = null,
+): Promise<void> {
+	await OutboundMessage.create({ chatId, text, conclusionNumber, replyMarkup: replyMarkup ? JSON.stringify(replyMarkup) : null });
+}
+
+export async function enqueueMessages(
+	chatIds: number[],
+	text: string,
+	conclusionNumber: string | null = null,
+	replyMarkup: TelegramBot.InlineKeyboardMarkup | null = null,
+): Promise<void> {
+	if (chatIds.length === 0) return;
+	const serializedMarkup = replyMarkup ? JSON.stringify(replyMarkup) : null;
+	await OutboundMessage.bulkCreate(chatIds.map(chatId => ({ chatId, text, conclusionNumber, replyMarkup: serializedMarkup })));
+}
+
+/**
+ * Возвращает комбинации "chatId:номер", которые уже были поставлены в очередь: ждут отправки
+ * или окончательно не доставлены (чат недоступен, исчерпаны попытки).
+ * Нужна для дедупликации: лид не должен ставиться в очередь повторно при каждом запуске.
+ */
+export async function getQueuedDeliveries(chatIds: number[], conclusionNumbers: string[]): Promise<Set<string>> {
+	if (chatIds.length === 0 || conclusionNumbers.length === 0) return new Set();
+
+	const pending = await OutboundMessage.findAll({
+		where: {
+			status: { [Op.in]: ['pending', 'sending', 'failed'] },
+			chatId: { [Op.in]: chatIds },
+			conclusionNumber: { [Op.in]: conclusionNumbers },
+		},
+		attributes: ['chatId', 'conclusionNumber'],
+		raw: true,
+	});
+	return new Set(pending.map(row => `${row.chatId}:${row.conclusionNumber}`));
+}
+
+// =================================================================================
+// ВОРКЕР ОТПРАВКИ
+// =================================================================================
+export function startOutboxWorker(sender: MessageSender): void {
+	if (workerTimer) return;
+	sendMessage = sender;
+	logger.info('[OUTBOX] Воркер очереди сообщений запущен');
+	scheduleNextTick();
+}
+
+export function stopOutboxWorker(): void {
+	if (workerTimer) {
+		clearTimeout(workerTimer);
+		workerTimer = null;
+		logger.info('[OUTBOX] Воркер очереди сообщений остановлен');
+	}
+}
+
+function scheduleNextTick(): void {
+	workerTimer = setTimeout(async () => {
+		await processOutboxTick();
+		if (workerTimer) {
+			scheduleNextTick();
+		}
+	}, OUTBOX_CONFIG.POLL_INTERVAL);
+}
+
+async function processOutboxTick(): Promise<void> {
+	if (isTickRunning || Date.now() < globalPausedUntil) return;
+	isTickRunning = true;
+
+	let claimToken: string | null = null;
+	try {
+		await releaseExpiredClaims();
+
+		const candidateIds = await selectCandidateIds();
+		if (candidateIds.length === 0) return;
+
+		// Захват атомарен: сообщение, которое успел захватить другой экземпляр, уже не в статусе pending
+		claimToken = crypto.randomBytes(16).toString('hex');
+		await OutboundMessage.update(
+			{ status: 'sending', claimToken, claimedUntil: new Date(Date.now() + OUTBOX_CONFIG.CLAIM_TTL) },
+			{ where: { id: { [Op.in]: candidateIds }, status: 'pending' } },
+		);
+		const claimed = await OutboundMessage.findAll({
+			where: { claimToken, status: 'sending' },
+			order: [['id', 'ASC']],
+		});
+
+		const sendInterval = 1000 / OUTBOX_CONFIG.GLOBAL_MESSAGES_PER_SECOND;
+		for (const message of claimed) {
+			const shouldContinue = await deliverMessage(message);
+			if (!shouldContinue) break;
+			await sleep(sendInterval);
+		}
+	} catch (error) {
+		logger.error('[OUTBOX] Ошибка обработки очереди сообщений:', error);
+	} finally {
+		// Неотправленные в этом проходе сообщения (пауза по 429) возвращаются в очередь
+		if (claimToken) {
+			await releaseClaim(claimToken);
+		}
+		isTickRunning = false;
+	}
+}
+
+/**
+ * Выбирает сообщения, готовые к отправке: по одному самому раннему на чат.
+ * Сообщения одного чата отправляются строго по порядку, поэтому чат, чье раннее сообщение
+ * ждет повтора или отправляется другим экземпляром, в этом проходе пропускается.
+ */
+async function selectCandidateIds(): Promise<number[]> {
+	const heads = await OutboundMessage.findAll({
+		attributes: [[fn('MIN', col('id')), 'id']],
+		where: { status: { [Op.in]: ['pending', 'sending'] } },
+		group: ['chatId'],
+		order: [[fn('MIN', col('id')), 'ASC']],
+		limit: OUTBOX_CONFIG.BATCH_SIZE,
+		raw: true,
+	});
+	if (heads.length === 0) return [];
+
+	const now = Date.now();
+	const pending = await OutboundMessage.findAll({
+		where: {
+			id: { [Op.in]: heads.map(head => head.id) },
+			status: 'pending',
+			nextAttemptAt: { [Op.lte]: new Date(now) },
+		},
+		attributes: ['id', 'chatId'],
+		order: [['id', 'ASC']],
+		raw: true,
+	});
+
+	return pending
+		.filter(message => {
+			const chatId = Number(message.chatId);
+			const lastSentAt = lastSentAtByChat.get(chatId) || 0;
+			const chatInterval = isGroupChatId(chatId) ? OUTBOX_CONFIG.GROUP_CHAT_INTERVAL : OUTBOX_CONFIG.PER_CHAT_INTERVAL;
+			return now - lastSentAt >= chatInterval;
+		})
+		.map(message => message.id);
+}
+
+async function releaseClaim(claimToken: string): Promise<void> {
+	try {
+		await OutboundMessage.update(
+			{ status: 'pending', claimToken: null, claimedUntil: null },
+			{ where: { claimToken, status: 'sending' } },
+		);
+	} catch (error) {
+		// Захват истечет сам через CLAIM_TTL
+		logger.error('[OUTBOX] Не удалось вернуть сообщения в очередь:', error);
+	}
+}
+
+// Сообщения, захваченные упавшим процессом, возвращаются в очередь после истечения захвата
+async function releaseExpiredClaims(): Promise<void> {
+	const [released] = await OutboundMessage.update(
+		{ status: 'pending', claimToken: null, claimedUntil: null },
+		{ where: { status: 'sending', claimedUntil: { [Op.lt]: new Date() } } },
+	);
+	if (released > 0) {
+		logger.warn(`[OUTBOX] В очередь возвращено ${released} сообщений с истекшим захватом`);
+	}
+}
+
+/**
+ * Отправляет одно сообщение из очереди.
+ * Возвращает false, если отправку нужно приостановить (глобальный rate limit).
+ */
+async function deliverMessage(message: OutboundMessage): Promise<boolean> {
+	const chatId = Number(message.chatId);
+
+	try {
+		await sendMessage!(chatId, message.text, message.replyMarkup ? { reply_markup: JSON.parse(message.replyMarkup) } : undefined);
+	} catch (error: any) {
+		return handleSendError(message, error);
+	}
+	lastSentAtByChat.set(chatId, Date.now());
+	logger.debug(`[OUTBOX] Сообщение #${message.id} доставлено в чат ${chatId}`);
+
+	// Сообщение уже в Telegram: ошибка записи в БД не должна вернуть его в очередь и отправить повторно
+	try {
+		await message.update({
+			status: 'sent',
+			sentAt: new Date(),
+			attempts: message.attempts + 1,
+			lastError: null,
+			claimToken: null,
+			claimedUntil: null,
+		});
+	} catch (error) {
+		logger.error(`[OUTBOX] Сообщение #${message.id} отправлено, но не отмечено как доставленное:`, error);
+		// Захват переводится на статус sent отдельно, чтобы releaseClaim не вернул сообщение в очередь
+		await OutboundMessage.update(
+			{ status: 'sent', claimToken: null, claimedUntil: null },
+			{ where: { id: message.id } },
+		).catch(retryError => logger.error(`[OUTBOX] Повторная отметка сообщения #${message.id} не удалась:`, retryError));
+	}
+
+	// Факт доставки лида фиксируется только после реальной отправки
+	if (message.conclusionNumber) {
+		try {
+			await ParsedData.create({ userId: chatId, dataContent: message.conclusionNumber });
+		} catch (error) {
+			logger.error(`[OUTBOX] Не удалось записать доставку лида "${message.conclusionNumber}" в чат ${chatId}:`, error);
+		}
+	}
+	return true;
+}
+
+/**
+ * Обрабатывает ошибку отправки: пауза по 429, отмена для недоступного чата или повтор с задержкой.
+ * Возвращает false, если отправку нужно приостановить (глобальный rate limit).
+ */
+async function handleSendError(message: OutboundMessage, error: any): Promise<boolean> {
+	const chatId = Number(message.chatId);
+	const statusCode = error.response?.statusCode;
+	const description: string = error.response?.body?.description || error.message || '';
+	lastSentAtByChat.set(chatId, Date.now());
+
+	if (statusCode === 429) {
+		const retryAfter = Number(error.response?.body?.parameters?.retry_after) || 5;
+		globalPausedUntil = Date.now() + retryAfter * 1000;
+		logger.warn(`[OUTBOX] Превышен лимит Telegram, пауза ${retryAfter}с`);
+		return false;
+	}
+
+	if (isChatUnreachableError(error)) {
+		logger.warn(`[OUTBOX] Чат ${chatId} недоступен (${description}), сообщение #${message.id} отменено`);
+		await message.update({ status: 'failed', attempts: message.attempts + 1, lastError: description, claimToken: null, claimedUntil: null });
+		await markChatUnreachable(chatId, description);
+		return true;
+	}
+
+	const attempts = message.attempts + 1;
+	if (attempts >= OUTBOX_CONFIG.MAX_ATTEMPTS) {
+		logger.error(`[OUTBOX] Сообщение #${message.id} для чата ${chatId} не доставлено после ${attempts} попыток: ${description}`);
+		await message.update({ status: 'failed', attempts, lastError: description, claimToken: null, claimedUntil: null });
+		return true;
+	}
+
+	const backoff = Math.min(OUTBOX_CONFIG.BASE_BACKOFF * Math.pow(2, attempts - 1), OUTBOX_CONFIG.MAX_BACKOFF);
+	logger.warn(`[OUTBOX] Попытка ${attempts} отправки сообщения #${message.id} в чат ${chatId} не удалась: ${description}. Повтор через ${Math.round(backoff / 1000)}с`);
+	await message.update({
+		status: 'pending',
+		attempts,
+		lastError: description,
+		nextAttemptAt: new Date(Date.now() + backoff),
+		claimToken: null,
+		claimedUntil: null,
+	});
+	return true;
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
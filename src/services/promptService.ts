@@ -0,0 +1,140 @@
+import { PromptTemplate } from '../database/models/PromptTemplate';
+import { logger } from '../logger';
+
+export interface IPromptVersion {
+	version: number;
+	content: string;
+	createdBy: number | null;
+	createdAt: Date | null;
+}
+
+// Ограничение длины, чтобы промпт помещался в одно сообщение Telegram
+export const MAX_PROMPT_LENGTH = 3500;
+
+// Как долго использовать загруженную версию без обращения к БД (изменения с других экземпляров)
+const PROMPT_CACHE_TTL = 60 * 1000;
+
+/**
+ * Встроенный промпт (версия 0): используется, пока в БД нет ни одной версии.
+ * Модель должна вернуть JSON по схеме leadExtractionSchema.
+ */
+export const DEFAULT_PROMPT: IPromptVersion = {
+	version: 0,
+	content: `
+Твоя роль — AI-ассистент, который извлекает и сокращает сведения из записи реестра заключений экспертизы.
+Верни ТОЛЬКО JSON-объект без пояснений и markdown в следующем формате:
+
+{
+  "result": "результат экспертизы, например: Положительное заключение",
+  "preparers": [ <компания> ],
+  "developers": [ <компания> ],
+  "object": {
+    "description": "описание объекта",
+    "shortAddress": "сокращенный адрес объекта или null"
+  },
+  "classification": {
+    "objectType": "residential" (жилье), "industrial" (производство, склады), "social" (школы, больницы, спорт, культура), "infrastructure" (дороги, сети, инженерные сооружения) или "other",
+    "constructionType": "new" (новое строительство) или "reconstruction" (реконструкция, капремонт),
+    "score": оценка привлекательности лида для поставщиков стройматериалов и подрядчиков от 0 до 100
+  }
+}
+
+где <компания>:
+{
+  "kind": "organization" или "individual" (для ИП),
+  "orgForm": "сокращенная форма: ООО, АО, ПАО, ГКУ и т.д. (для ИП — null)",
+  "name": "название без кавычек и формы, для ИП — ФИО в виде Иванов И.И.",
+  "inn": "ИНН (10 или 12 цифр) или null",
+  "ogrn": "ОГРН (13 цифр) или null",
+  "ogrnip": "ОГРНИП (15 цифр) или null",
+  "shortAddress": "сокращенный адрес или null"
+}
+
+**ПРАВИЛА:**
+1.  "preparers" — из поля "Кто подготовил документацию", "developers" — из поля "Застройщик". Каждая организация — отдельный элемент массива.
+2.  Реквизиты копируй только цифрами, ничего не придумывай. Если реквизита нет в данных — null.
+3.  Сокращай адреса: убирай "Россия", "МЕСТО НАХОЖДЕНИЯ", индекс и лишние детали. Пример: "Москва, ул. Ленина, д. 1".
+4.  Для объекта убери всю информацию после слов "Почтовый адрес:" из описания, адрес объекта помести в "shortAddress".
+5.  Оценку "score" повышай для крупных объектов нового строительства (многоквартирные дома, производственные комплексы, социальные объекты), понижай для мелких работ, линейных сетей и отрицательных заключений.
+`,
+	createdBy: null,
+	createdAt: null,
+};
+
+let cachedPrompt: { prompt: IPromptVersion; loadedAt: number } | null = null;
+
+function toPromptVersion(template: PromptTemplate): IPromptVersion {
+	return {
+		version: template.version,
+		content: template.content,
+		createdBy: template.createdBy,
+		createdAt: template.createdAt,
+	};
+}
+
+/**
+ * Возвращает действующий промпт: последнюю версию из БД или встроенный.
+ */
+export async function getActivePrompt(): Promise<IPromptVersion> {
+	if (cachedPrompt && Date.now() - cachedPrompt.loadedAt < PROMPT_CACHE_TTL) {
+		return cachedPrompt.prompt;
+	}
+
+	let prompt = DEFAULT_PROMPT;
+	try {
+		const latest = await PromptTemplate.findOne({ order: [['version', 'DESC']] });
+		if (latest) {
+			prompt = toPromptVersion(latest);
+		}
+	} catch (error) {
+		// Без доступа к БД продолжаем с последней известной версией
+		logger.error('[AI] Не удалось загрузить промпт из БД:', error);
+		if (cachedPrompt) return cachedPrompt.prompt;
+	}
+
+	cachedPrompt = { prompt, loadedAt: Date.now() };
+	return prompt;
+}
+
+export async function getPromptVersion(version: number): Promise<IPromptVersion | null> {
+	if (!Number.isInteger(version) || version < 0) return null;
+	if (version === DEFAULT_PROMPT.version) return DEFAULT_PROMPT;
+	const template = await PromptTemplate.findOne({ where: { version } });
+	return template ? toPromptVersion(template) : null;
+}
+
+export async function listPromptVersions(limit: number = 10): Promise<IPromptVersion[]> {
+	const templates = await PromptTemplate.findAll({ order: [['version', 'DESC']], limit });
+	return templates.map(toPromptVersion);
+}
+
+/**
+ * Проверяет текст промпта перед сохранением. Возвращает текст ошибки или null.
+ * Запрос к модели идет с response_format: json_object, а OpenAI отклоняет такой запрос,
+ * если в сообщениях нет слова "JSON", и тогда все лиды уходили бы в разбор по правилам.
+ */
+export function validatePromptContent(content: string): string | null {
+	if (!content) {
+		return 'Промпт пустой.';
+	}
+	if (content.length > MAX_PROMPT_LENGTH) {
+		return `Промпт длиннее ${MAX_PROMPT_LENGTH} символов (${content.length}).`;
+	}
+	if (!/json/i.test(content)) {
+		return 'Промпт должен требовать от модели ответ в формате JSON и содержать слово "JSON".';
+	}
+	return null;
+}
+
+/**
+ * Сохраняет текст как новую версию промпта и делает ее действующей.
+ */
+export async function savePromptVersion(content: string, createdBy: number | null): Promise<IPromptVersion> {
+	const latestVersion = (await PromptTemplate.max<number, PromptTemplate>('version')) || 0;
+	const template = await PromptTemplate.create({ version: latestVersion + 1, content, createdBy });
+
+	const prompt = toPromptVersion(template);
+	cachedPrompt = { prompt, loadedAt: Date.now() };
+	logger.info(`[AI] Сохранена версия промпта ${prompt.version}`);
+	return prompt;
+}
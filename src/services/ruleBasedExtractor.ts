@@ -0,0 +1,187 @@
+import { LeadObjectType } from '../types/config.types';
+import { IEgrzRecord } from '../types/egrz.types';
+import { ILeadClassification, ILeadCompany, ILeadExtraction } from './leadExtraction';
+
+// =================================================================================
+// ПРАВИЛА РАЗБОРА СВЕДЕНИЙ ИЗ ЕГРЗ БЕЗ ОБРАЩЕНИЯ К AI
+// =================================================================================
+// Полные наименования организационно-правовых форм; более длинные должны идти раньше
+const ORG_FORMS: Array<[string, string]> = [
+	['ФЕДЕРАЛЬНОЕ ГОСУДАРСТВЕННОЕ БЮДЖЕТНОЕ УЧРЕЖДЕНИЕ', 'ФГБУ'],
+	['ФЕДЕРАЛЬНОЕ ГОСУДАРСТВЕННОЕ КАЗЕННОЕ УЧРЕЖДЕНИЕ', 'ФГКУ'],
+	['ФЕДЕРАЛЬНОЕ ГОСУДАРСТВЕННОЕ УНИТАРНОЕ ПРЕДПРИЯТИЕ', 'ФГУП'],
+	['ФЕДЕРАЛЬНОЕ КАЗЕННОЕ УЧРЕЖДЕНИЕ', 'ФКУ'],
+	['ГОСУДАРСТВЕННОЕ БЮДЖЕТНОЕ УЧРЕЖДЕНИЕ', 'ГБУ'],
+	['ГОСУДАРСТВЕННОЕ КАЗЕННОЕ УЧРЕЖДЕНИЕ', 'ГКУ'],
+	['ГОСУДАРСТВЕННОЕ АВТОНОМНОЕ УЧРЕЖДЕНИЕ', 'ГАУ'],
+	['ГОСУДАРСТВЕННОЕ УНИТАРНОЕ ПРЕДПРИЯТИЕ', 'ГУП'],
+	['МУНИЦИПАЛЬНОЕ БЮДЖЕТНОЕ УЧРЕЖДЕНИЕ', 'МБУ'],
+	['МУНИЦИПАЛЬНОЕ КАЗЕННОЕ УЧРЕЖДЕНИЕ', 'МКУ'],
+	['МУНИЦИПАЛЬНОЕ АВТОНОМНОЕ УЧРЕЖДЕНИЕ', 'МАУ'],
+	['МУНИЦИПАЛЬНОЕ УНИТАРНОЕ ПРЕДПРИЯТИЕ', 'МУП'],
+	['ОБЩЕСТВО С ОГРАНИЧЕННОЙ ОТВЕТСТВЕННОСТЬЮ', 'ООО'],
+	['НЕПУБЛИЧНОЕ АКЦИОНЕРНОЕ ОБЩЕСТВО', 'АО'],
+	['ПУБЛИЧНОЕ АКЦИОНЕРНОЕ ОБЩЕСТВО', 'ПАО'],
+	['ЗАКРЫТОЕ АКЦИОНЕРНОЕ ОБЩЕСТВО', 'ЗАО'],
+	['ОТКРЫТОЕ АКЦИОНЕРНОЕ ОБЩЕСТВО', 'ОАО'],
+	['АКЦИОНЕРНОЕ ОБЩЕСТВО', 'АО'],
+	['АВТОНОМНАЯ НЕКОММЕРЧЕСКАЯ ОРГАНИЗАЦИЯ', 'АНО'],
+];
+
+const SHORT_ORG_FORM = /^(ФГБУ|ФГКУ|ФГУП|ФКУ|ГБУ|ГКУ|ГАУ|ГУП|МБУ|МКУ|МАУ|МУП|ООО|ПАО|ЗАО|ОАО|АО|НАО|АНО)(?=[\s"«]|$)/;
+const INDIVIDUAL_MARKER = /индивидуальный\s+предприниматель|(?:^|[\s,])ИП(?=[\s,.]|$)/i;
+// Начало новой организации в списке: форма собственности или ИП
+const COMPANY_START = new RegExp(`^(?:${ORG_FORMS.map(([full]) => full).join('|')}|${SHORT_ORG_FORM.source.slice(1)}|индивидуальный\\s+предприниматель|ИП\\s)`, 'i');
+
+// Маркеры, после которых в сведениях о компании идут реквизиты и адрес
+const DETAILS_START = /(ИНН|ОГРН|КПП|МЕСТО НАХОЖДЕНИЯ|АДРЕС)/i;
+const ADDRESS_START = /(?:МЕСТО НАХОЖДЕНИЯ|ЮРИДИЧЕСКИЙ АДРЕС|ПОЧТОВЫЙ АДРЕС|АДРЕС)\s*:?/i;
+
+/**
+ * Сокращает адрес: убирает "Россия", индекс и лишние разделители.
+ */
+export function shortenAddress(address: string): string | null {
+	const shortened = address
+		.replace(/российская\s+федерация|россия/gi, '')
+		.replace(/(^|[\s,])\d{6}(?=[\s,]|$)/g, '$1')
+		.replace(/\s+/g, ' ')
+		.replace(/\s*,\s*(,\s*)+/g, ', ')
+		.replace(/^[\s,.;:]+|[\s,.;:]+$/g, '');
+	return shortened || null;
+}
+
+/**
+ * "Иванов Иван Иванович" → "Иванов И.И."
+ */
+function shortenPersonName(fullName: string): string {
+	const parts = fullName.split(/\s+/).filter(Boolean);
+	if (parts.length < 2 || parts.length > 3) return fullName;
+	return `${parts[0]} ${parts.slice(1).map(part => `${part[0].toUpperCase()}.`).join('')}`;
+}
+
+function extractRequisite(text: string, pattern: RegExp): string | null {
+	const match = text.match(pattern);
+	return match ? match[1] : null;
+}
+
+/**
+ * Разбирает сведения об одной организации или ИП.
+ */
+function parseCompany(text: string): ILeadCompany {
+	const inn = extractRequisite(text, /ИНН\s*[:№]?\s*(\d{12}|\d{10})(?!\d)/i);
+	const ogrn = extractRequisite(text, /ОГРН(?!ИП)\s*[:№]?\s*(\d{13})(?!\d)/i);
+	const ogrnip = extractRequisite(text, /ОГРНИП\s*[:№]?\s*(\d{15})(?!\d)/i);
+
+	const detailsIndex = text.search(DETAILS_START);
+	const head = (detailsIndex > 0 ? text.slice(0, detailsIndex) : text).replace(/[\s,.;:(]+$/, '');
+
+	const addressMatch = text.match(ADDRESS_START);
+	const shortAddress = addressMatch && addressMatch.index !== undefined
+		? shortenAddress(text.slice(addressMatch.index + addressMatch[0].length).replace(/\)\s*$/, ''))
+		: null;
+
+	if (ogrnip || INDIVIDUAL_MARKER.test(head)) {
+		const personName = head.replace(INDIVIDUAL_MARKER, ' ').replace(/["«»]/g, '').trim();
+		return {
+			kind: 'individual',
+			orgForm: null,
+			name: shortenPersonName(personName) || head,
+			inn,
+			ogrn: null,
+			ogrnip,
+			shortAddress,
+		};
+	}
+
+	let orgForm: string | null = null;
+	let rest = head;
+	const fullForm = ORG_FORMS.find(([full]) => head.toUpperCase().startsWith(full));
+	if (fullForm) {
+		orgForm = fullForm[1];
+		rest = head.slice(fullForm[0].length);
+	} else {
+		const shortMatch = head.match(SHORT_ORG_FORM);
+		if (shortMatch) {
+			orgForm = shortMatch[1];
+			rest = head.slice(shortMatch[0].length);
+		}
+	}
+
+	// Название берем из внешних кавычек, вложенные кавычки сохраняем
+	const quoted = rest.match(/[«"](.+)[»"]/);
+	const name = (quoted ? quoted[1] : rest).replace(/^[\s,.;:]+|[\s,.;:]+$/g, '');
+
+	return {
+		kind: 'organization',
+		orgForm,
+		name: name || head || text,
+		inn,
+		ogrn,
+		ogrnip: null,
+		shortAddress,
+	};
+}
+
+/**
+ * Разбивает поле со сведениями о нескольких организациях на отдельные записи.
+ * Строка, не начинающаяся с формы собственности или ИП, считается продолжением предыдущей.
+ */
+function splitCompanies(text: string): string[] {
+	const chunks: string[] = [];
+	for (const segment of text.split(/\r?\n|;/).map(part => part.trim()).filter(Boolean)) {
+		if (chunks.length === 0 || COMPANY_START.test(segment)) {
+			chunks.push(segment);
+		} else {
+			chunks[chunks.length - 1] += `, ${segment}`;
+		}
+	}
+	return chunks;
+}
+
+export function parseCompanies(text: string | undefined): ILeadCompany[] {
+	return splitCompanies(text || '').map(parseCompany);
+}
+
+// Ключевые слова для определения типа объекта; проверяются по порядку
+const OBJECT_TYPE_KEYWORDS: Array<[LeadObjectType, RegExp]> = [
+	['social', /школ|детск(ий|ого) сад|дошкольн|больниц|поликлиник|медицинск|фельдшерск|спортивн|физкультурн|бассейн|культур|клуб|библиотек|музе/i],
+	['residential', /жил(ой|ого|ых|ые)|многоквартирн|индивидуальн(ый|ого) жил/i],
+	['industrial', /завод|цех|производствен|склад|логистическ|комбинат|фабрик|ангар/i],
+	['infrastructure', /дорог|мост|путепровод|водопровод|водоснабжен|канализац|газопровод|газоснабжен|теплотрасс|теплоснабжен|тепловых сетей|котельн|очистн|подстанц|электросетев|линии электропередачи|ЛЭП/i],
+];
+
+/**
+ * Определяет тип объекта и вид работ по ключевым словам. Оценка по правилам не выставляется.
+ */
+export function classifyWithRules(objectDescription: string): ILeadClassification {
+	const objectType = OBJECT_TYPE_KEYWORDS.find(([, pattern]) => pattern.test(objectDescription))?.[0] || 'other';
+	return {
+		objectType,
+		constructionType: /реконструкц|капитальн(ый|ого) ремонт/i.test(objectDescription) ? 'reconstruction' : 'new',
+		score: null,
+	};
+}
+
+/**
+ * Извлекает данные лида по тем же правилам, что описаны в промпте AI, без обращения к сети.
+ */
+export function extractLeadWithRules(record: IEgrzRecord): ILeadExtraction {
+	const objectText = record['Наименование и адрес (местоположение) объекта капитального строительства, применительно к которому подготовлена проектная документация'] || '';
+	// Оставляем только описание объекта: все после "Почтовый адрес:" отбрасываем
+	const description = objectText
+		.split(/почтовый адрес\s*:/i)[0]
+		.replace(/российская\s+федерация,?|россия,?/gi, '')
+		.replace(/\s+/g, ' ')
+		.replace(/^[\s,.;:]+|[\s,.;:]+$/g, '');
+
+	return {
+		result: record['Результат проведенной экспертизы (положительное или отрицательное заключение экспертизы)']?.trim() || 'Не указан',
+		preparers: parseCompanies(record['Сведения об индивидуальных предпринимателях и (или) юридических лицах, подготовивших проектную документацию']),
+		developers: parseCompanies(record['Сведения о застройщике, обеспечившем подготовку проектной документации']),
+		object: {
+			description: description || 'Не указано',
+			shortAddress: null,
+		},
+		classification: classifyWithRules(description),
+	};
+}
@@ -0,0 +1,128 @@
+import { SchedulerRun, SchedulerRunStatus } from '../database/models/SchedulerRun';
+import { logger } from '../logger';
+import { ProcessingResult } from '../types/scheduler.types';
+
+export interface ISchedulerRunSummary {
+	id: number;
+	startedAt: Date;
+	finishedAt: Date | null;
+	durationMs: number | null;
+	status: SchedulerRunStatus;
+	totalRegions: number;
+	totalRecords: number;
+	processedRecords: number;
+	skippedRecords: number;
+	errorRecords: number;
+	regions: ProcessingResult[];
+	errorMessage: string | null;
+}
+
+export interface IFailingRegion {
+	region: string;
+	failedRuns: number;
+	lastError: string | null;
+}
+
+/**
+ * Создает запись о запуске. Вызывается под блокировкой парсинга, поэтому другие записи
+ * в статусе running остались от процессов, которые упали, не завершив запуск, и чья блокировка истекла.
+ */
+export async function startSchedulerRun(): Promise<SchedulerRun | null> {
+	try {
+		const [staleCount] = await SchedulerRun.update(
+			{ status: 'failed', errorMessage: 'Процесс завершился во время выполнения задачи' },
+			{ where: { status: 'running' } },
+		);
+		if (staleCount > 0) {
+			logger.warn(`[SCHEDULER] Незавершенных запусков упавших процессов отмечено как failed: ${staleCount}`);
+		}
+		return await SchedulerRun.create({ startedAt: new Date() });
+	} catch (error) {
+		// История запусков не должна мешать самой задаче
+		logger.error('[SCHEDULER] Не удалось сохранить запись о запуске:', error);
+		return null;
+	}
+}
+
+export async function finishSchedulerRun(run: SchedulerRun | null, results: ProcessingResult[], error?: unknown): Promise<void> {
+	if (!run) return;
+
+	const finishedAt = new Date();
+	const totals = results.reduce((acc, result) => ({
+		totalRecords: acc.totalRecords + result.totalRecords,
+		processedRecords: acc.processedRecords + result.processedRecords,
+		skippedRecords: acc.skippedRecords + result.skippedRecords,
+		errorRecords: acc.errorRecords + result.errorRecords,
+	}), { totalRecords: 0, processedRecords: 0, skippedRecords: 0, errorRecords: 0 });
+
+	let status: SchedulerRunStatus = 'success';
+	if (error) {
+		status = 'failed';
+	} else if (results.some(result => result.errorRecords > 0 || result.errorMessage)) {
+		status = 'partial';
+	}
+
+	try {
+		await run.update({
+			finishedAt,
+			durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+			status,
+			totalRegions: results.length,
+			...totals,
+			regionResults: JSON.stringify(results),
+			errorMessage: error ? (error instanceof Error ? error.message : String(error)) : null,
+		});
+	} catch (updateError) {
+		logger.error(`[SCHEDULER] Не удалось сохранить итоги запуска #${run.id}:`, updateError);
+	}
+}
+
+export async function getRecentRuns(limit: number = 10): Promise<ISchedulerRunSummary[]> {
+	const runs = await SchedulerRun.findAll({
+		order: [['startedAt', 'DESC']],
+		limit,
+	});
+
+	return runs.map(run => {
+		let regions: ProcessingResult[] = [];
+		try {
+			regions = run.regionResults ? JSON.parse(run.regionResults) : [];
+		} catch (e) { /* ignore */ }
+
+		return {
+			id: run.id,
+			startedAt: run.startedAt,
+			finishedAt: run.finishedAt,
+			durationMs: run.durationMs,
+			status: run.status,
+			totalRegions: run.totalRegions,
+			totalRecords: run.totalRecords,
+			processedRecords: run.processedRecords,
+			skippedRecords: run.skippedRecords,
+			errorRecords: run.errorRecords,
+			regions,
+			errorMessage: run.errorMessage,
+		};
+	});
+}
+
+/**
+ * Собирает регионы, завершавшиеся с ошибками в переданных запусках (от частых к редким).
+ */
+export function getFailingRegions(runs: ISchedulerRunSummary[]): IFailingRegion[] {
+	const failing = new Map<string, IFailingRegion>();
+
+	// Запуски идут от новых к старым, поэтому первая встреченная ошибка — последняя по времени
+	for (const run of runs) {
+		for (const result of run.regions) {
+			if (result.errorRecords === 0 && !result.errorMessage) continue;
+
+			const entry = failing.get(result.region) || { region: result.region, failedRuns: 0, lastError: null };
+			entry.failedRuns++;
+			entry.lastError = entry.lastError ?? result.errorMessage ?? null;
+			failing.set(result.region, entry);
+		}
+	}
+
+	return Array.from(failing.values()).sort((a, b) => b.failedRuns - a.failedRuns);
+}
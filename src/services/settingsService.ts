@@ -0,0 +1,209 @@
+import cron from 'node-cron';
+import { z } from 'zod';
+import { Setting } from '../database/models/Setting';
+import { logger } from '../logger';
+
+// =================================================================================
+// СХЕМА НАСТРОЕК ВРЕМЕНИ ВЫПОЛНЕНИЯ
+// =================================================================================
+// Значения хранятся в таблице settings строками и валидируются так же, как .env в config.ts
+const settingFieldsSchema = z.object({
+	// Расписание основной задачи парсинга
+	CRON_SCHEDULE: z
+		.string()
+		.refine((value) => cron.validate(value), { message: 'Некорректное cron-выражение' })
+		.default('*/15 * * * *'),
+	// Таймаут для HTTP запросов (мс)
+	HTTP_TIMEOUT: z.coerce.number().int().min(1000).default(30 * 1000),
+	// Максимальное количество записей с API за раз (размер страницы)
+	MAX_RECORDS_PER_REQUEST: z.coerce.number().int().min(1).max(1000).default(100),
+	// Предохранитель: максимальное количество страниц за одну выборку
+	MAX_PAGES_PER_FETCH: z.coerce.number().int().min(1).default(50),
+	// Максимальное количество повторных попыток запроса к API ЕГРЗ
+	MAX_RETRIES: z.coerce.number().int().min(1).max(10).default(3),
+	// Задержка между повторными попытками (мс)
+	RETRY_DELAY: z.coerce.number().int().min(0).default(5000),
+	// Максимальная длина периода для исторической догрузки (дней)
+	BACKFILL_MAX_DAYS: z.coerce.number().int().min(1).max(366).default(31),
+	// Максимальная глубина автоматической догрузки после простоя (дней)
+	WATERMARK_MAX_CATCHUP_DAYS: z.coerce.number().int().min(0).max(90).default(7),
+	// Время жизни распределенной блокировки без продления (мс)
+	LOCK_TTL: z.coerce.number().int().min(10 * 1000).default(2 * 60 * 1000),
+	// Интервал продления блокировки, пока задача выполняется (мс)
+	LOCK_HEARTBEAT_INTERVAL: z.coerce.number().int().min(1000).default(30 * 1000),
+	// Сколько немедленный парсинг и догрузка ждут освобождения блокировки (мс)
+	LOCK_WAIT_TIMEOUT: z.coerce.number().int().min(0).default(10 * 60 * 1000),
+	// Количество попыток обращения к AI
+	AI_MAX_RETRIES: z.coerce.number().int().min(1).max(10).default(3),
+	// Базовая задержка между попытками обращения к AI (мс)
+	AI_RETRY_DELAY: z.coerce.number().int().min(0).default(2000),
+	// Таймаут одного запроса к AI (мс)
+	AI_REQUEST_TIMEOUT: z.coerce.number().int().min(1000).default(60 * 1000),
+	// Месячный бюджет на AI в USD; при превышении лиды оформляются по правилам (0 — без ограничения)
+	AI_MONTHLY_BUDGET_USD: z.coerce.number().min(0).default(0),
+});
+
+// Проверки, связывающие несколько настроек
+const settingsSchema = settingFieldsSchema.superRefine((settings, ctx) => {
+	// Блокировка должна успеть продлиться хотя бы дважды, иначе она истечет под работающей задачей
+	if (settings.LOCK_HEARTBEAT_INTERVAL * 2 > settings.LOCK_TTL) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ['LOCK_HEARTBEAT_INTERVAL'],
+			message: `LOCK_HEARTBEAT_INTERVAL (${settings.LOCK_HEARTBEAT_INTERVAL}) должен быть не больше половины LOCK_TTL (${settings.LOCK_TTL})`,
+		});
+	}
+});
+
+export type RuntimeSettings = z.infer<typeof settingFieldsSchema>;
+export type SettingKey = keyof RuntimeSettings;
+
+type SettingsChangeListener = (next: RuntimeSettings, previous: RuntimeSettings) => void;
+
+// Описания для команды /settings
+export const SETTING_DESCRIPTIONS: Record<SettingKey, string> = {
+	CRON_SCHEDULE: 'расписание задачи парсинга (cron)',
+	HTTP_TIMEOUT: 'таймаут запроса к API ЕГРЗ, мс',
+	MAX_RECORDS_PER_REQUEST: 'размер страницы API ЕГРЗ',
+	MAX_PAGES_PER_FETCH: 'лимит страниц за одну выборку',
+	MAX_RETRIES: 'попыток запроса к API ЕГРЗ',
+	RETRY_DELAY: 'пауза между попытками к API ЕГРЗ, мс',
+	BACKFILL_MAX_DAYS: 'максимальный период /history, дней',
+	WATERMARK_MAX_CATCHUP_DAYS: 'глубина догрузки после простоя, дней',
+	LOCK_TTL: 'время жизни блокировки, мс',
+	LOCK_HEARTBEAT_INTERVAL: 'интервал продления блокировки, мс',
+	LOCK_WAIT_TIMEOUT: 'ожидание блокировки при ручном поиске, мс',
+	AI_MAX_RETRIES: 'попыток обращения к AI',
+	AI_RETRY_DELAY: 'пауза между попытками к AI, мс',
+	AI_REQUEST_TIMEOUT: 'таймаут запроса к AI, мс',
+	AI_MONTHLY_BUDGET_USD: 'месячный бюджет на AI, USD (0 — без ограничения)',
+};
+
+export const DEFAULT_SETTINGS: RuntimeSettings = settingsSchema.parse({});
+
+// Интервал перечитывания настроек из БД (изменения с других экземпляров)
+const SETTINGS_REFRESH_INTERVAL = 60 * 1000;
+
+let currentSettings: RuntimeSettings = DEFAULT_SETTINGS;
+let refreshTimer: NodeJS.Timeout | null = null;
+const listeners: SettingsChangeListener[] = [];
+
+export function isSettingKey(key: string): key is SettingKey {
+	return key in settingFieldsSchema.shape;
+}
+
+/**
+ * Возвращает текущие настройки (значения по умолчанию, пока настройки не загружены из БД).
+ */
+export function getSettings(): RuntimeSettings {
+	return currentSettings;
+}
+
+export function onSettingsChange(listener: SettingsChangeListener): void {
+	listeners.push(listener);
+}
+
+function applySettings(next: RuntimeSettings): void {
+	const previous = currentSettings;
+	currentSettings = next;
+
+	const changedKeys = (Object.keys(next) as SettingKey[]).filter(key => next[key] !== previous[key]);
+	if (changedKeys.length === 0) return;
+
+	logger.info(`[SETTINGS] Изменены настройки: ${changedKeys.join(', ')}`);
+	for (const listener of listeners) {
+		try {
+			listener(next, previous);
+		} catch (error) {
+			logger.error('[SETTINGS] Ошибка обработчика изменения настроек:', error);
+		}
+	}
+}
+
+/**
+ * Загружает настройки из БД. Некорректные значения пропускаются с ошибкой в логе.
+ */
+export async function loadSettings(): Promise<RuntimeSettings> {
+	const rows = await Setting.findAll();
+	const next: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+
+	for (const row of rows) {
+		if (!isSettingKey(row.key)) {
+			logger.warn(`[SETTINGS] Неизвестная настройка в БД: ${row.key}`);
+			continue;
+		}
+		const parsed = settingFieldsSchema.shape[row.key].safeParse(row.value);
+		if (!parsed.success) {
+			logger.error(`[SETTINGS] Некорректное значение ${row.key}="${row.value}", используется значение по умолчанию:`, parsed.error.flatten().formErrors);
+			continue;
+		}
+		next[row.key] = parsed.data;
+	}
+
+	const consistencyError = validateSettings(next as RuntimeSettings);
+	if (consistencyError) {
+		logger.error(`[SETTINGS] Несогласованные настройки блокировки, используются значения по умолчанию: ${consistencyError}`);
+		next.LOCK_TTL = DEFAULT_SETTINGS.LOCK_TTL;
+		next.LOCK_HEARTBEAT_INTERVAL = DEFAULT_SETTINGS.LOCK_HEARTBEAT_INTERVAL;
+	}
+
+	applySettings(next as RuntimeSettings);
+	return currentSettings;
+}
+
+// Возвращает текст ошибки, если настройки противоречат друг другу
+function validateSettings(settings: RuntimeSettings): string | null {
+	const parsed = settingsSchema.safeParse(settings);
+	return parsed.success ? null : parsed.error.issues.map(issue => issue.message).join('; ');
+}
+
+/**
+ * Загружает настройки и периодически перечитывает их из БД.
+ */
+export async function startSettingsRefresh(): Promise<void> {
+	try {
+		await loadSettings();
+	} catch (error) {
+		logger.error('[SETTINGS] Не удалось загрузить настройки, используются значения по умолчанию:', error);
+	}
+
+	if (refreshTimer) return;
+	refreshTimer = setInterval(() => {
+		loadSettings().catch(error => logger.error('[SETTINGS] Ошибка обновления настроек:', error));
+	}, SETTINGS_REFRESH_INTERVAL);
+}
+
+/**
+ * Изменяет настройку. Возвращает текст ошибки валидации или null при успехе.
+ */
+export async function updateSetting(key: SettingKey, rawValue: string, updatedBy: number | null): Promise<string | null> {
+	const parsed = settingFieldsSchema.shape[key].safeParse(rawValue);
+	if (!parsed.success) {
+		return parsed.error.issues.map(issue => issue.message).join('; ');
+	}
+
+	const next = { ...currentSettings, [key]: parsed.data };
+	const consistencyError = validateSettings(next);
+	if (consistencyError) {
+		return consistencyError;
+	}
+
+	await Setting.upsert({ key, value: String(parsed.data), updatedBy });
+	applySettings(next);
+	return null;
+}
+
+/**
+ * Возвращает настройку к значению по умолчанию. Возвращает текст ошибки или null при успехе.
+ */
+export async function resetSetting(key: SettingKey): Promise<string | null> {
+	const next = { ...currentSettings, [key]: DEFAULT_SETTINGS[key] };
+	const consistencyError = validateSettings(next);
+	if (consistencyError) {
+		return consistencyError;
+	}
+
+	await Setting.destroy({ where: { key } });
+	applySettings(next);
+	return null;
+}
@@ -0,0 +1,59 @@
+import { Configuration } from '../database/models/Configuration';
+import { Organization } from '../database/models/Organization';
+import { OrganizationMember } from '../database/models/OrganizationMember';
+import { IUserConfig } from '../types/config.types';
+
+/**
+ * Разбирает JSON конфигурации пользователя, подставляя значения по умолчанию.
+ */
+export function parseUserConfig(configData: string | null | undefined): IUserConfig {
+	if (configData) {
+		try {
+			const parsed = JSON.parse(configData);
+			if (Array.isArray(parsed.regions)) {
+				return {
+					...parsed,
+					filters: Array.isArray(parsed.filters) ? parsed.filters : [],
+				};
+			}
+		} catch (e) { /* ignore */ }
+	}
+	return { regions: [], filters: [] };
+}
+
+export async function getUserConfig(chatId: number): Promise<IUserConfig> {
+	const config = await Configuration.findOne({ where: { userId: chatId } });
+	return parseUserConfig(config?.configData);
+}
+
+export async function saveUserConfig(chatId: number, userConfig: IUserConfig): Promise<void> {
+	await Configuration.upsert({
+		userId: chatId,
+		configData: JSON.stringify(userConfig),
+	});
+}
+
+/**
+ * Возвращает подписки, по которым пользователь получает лиды:
+ * у участника команды это подписки команды, иначе — личная конфигурация.
+ */
+export async function getSubscriptionConfig(chatId: number): Promise<IUserConfig> {
+	const membership = await OrganizationMember.findOne({ where: { userId: chatId } });
+	if (membership) {
+		const organization = await Organization.findByPk(membership.organizationId);
+		return parseUserConfig(organization?.configData);
+	}
+	return getUserConfig(chatId);
+}
+
+/**
+ * Сохраняет подписки туда, откуда они читаются: в команду пользователя или в его личную конфигурацию.
+ */
+export async function saveSubscriptionConfig(chatId: number, userConfig: IUserConfig): Promise<void> {
+	const membership = await OrganizationMember.findOne({ where: { userId: chatId } });
+	if (membership) {
+		await Organization.update({ configData: JSON.stringify(userConfig) }, { where: { id: membership.organizationId } });
+		return;
+	}
+	await saveUserConfig(chatId, userConfig);
+}
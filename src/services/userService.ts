@@ -0,0 +1,100 @@
+import { Op } from 'sequelize';
+import { OrganizationMember } from '../database/models/OrganizationMember';
+import { OutboundMessage } from '../database/models/OutboundMessage';
+import { User } from '../database/models/User';
+import { logger } from '../logger';
+import { isGroupChatId, markDeliveryTargetUnreachable } from './deliveryTargetService';
+import { notifyAdmins } from './notificationService';
+
+function formatUser(user: User): string {
+	return user.username ? `@${user.username} (ID: ${user.userId})` : `ID: ${user.userId}`;
+}
+
+/**
+ * Деактивирует пользователя, который заблокировал бота или чат с которым не найден.
+ * Для групп и каналов отключается рассылка в чат.
+ * Ожидающие сообщения для этого чата отменяются, администраторы получают уведомление.
+ */
+export async function markChatUnreachable(chatId: number, reason: string): Promise<void> {
+	if (isGroupChatId(chatId)) {
+		await markDeliveryTargetUnreachable(chatId, reason);
+		return;
+	}
+
+	try {
+		const user = await User.findOne({ where: { userId: chatId } });
+		if (!user || user.status === 'blocked') {
+			return;
+		}
+
+		await user.update({ status: 'blocked', blockedAt: new Date() });
+		await OutboundMessage.update(
+			{ status: 'failed', lastError: reason },
+			{ where: { chatId, status: 'pending' } },
+		);
+
+		logger.warn(`[USERS] Пользователь ${formatUser(user)} деактивирован: ${reason}`);
+		await notifyAdmins(`⚠️ Пользователь ${formatUser(user)} заблокировал бота и деактивирован.\nПричина: ${reason}\nПодписки возобновятся, когда он снова нажмет /start.`);
+	} catch (error) {
+		logger.error(`[USERS] Не удалось деактивировать пользователя ${chatId}:`, error);
+	}
+}
+
+/**
+ * Возобновляет подписки пользователя после повторного /start.
+ * Возвращает true, если пользователь был деактивирован.
+ */
+export async function reactivateUser(chatId: number): Promise<boolean> {
+	const user = await User.findOne({ where: { userId: chatId, status: 'blocked' } });
+	if (!user) {
+		return false;
+	}
+
+	await user.update({ status: 'active', blockedAt: null });
+	logger.info(`[USERS] Пользователь ${formatUser(user)} снова активен`);
+	await notifyAdmins(`✅ Пользователь ${formatUser(user)} снова активировал бота, подписки возобновлены.`);
+	return true;
+}
+
+/**
+ * Возвращает Telegram ID деактивированных пользователей (исключаются из рассылки).
+ */
+export async function getInactiveUserIds(): Promise<Set<number>> {
+	const users = await User.findAll({
+		where: { status: 'blocked', userId: { [Op.not]: null } },
+		attributes: ['userId'],
+		raw: true,
+	});
+	return new Set(users.map(user => Number(user.userId)));
+}
+
+/**
+ * Добавляет username в белый список. Пользователь получает доступ после /start.
+ */
+export async function addUserToWhitelist(username: string): Promise<{ user: User; created: boolean }> {
+	const [user, created] = await User.findOrCreate({
+		where: { username },
+		defaults: { username, userId: null },
+	});
+	return { user, created };
+}
+
+/**
+ * Удаляет пользователей из белого списка вместе с участием в командах.
+ * Возвращает количество удаленных и Telegram ID активированных пользователей для уведомления.
+ */
+export async function removeUsersFromWhitelist(usernames: string[]): Promise<{ deletedCount: number; removedChatIds: number[] }> {
+	const activatedUsers = await User.findAll({
+		where: { username: { [Op.in]: usernames }, userId: { [Op.not]: null } },
+		attributes: ['userId'],
+	});
+	const removedChatIds = activatedUsers.map(user => Number(user.userId));
+
+	const deletedCount = await User.destroy({
+		where: { username: { [Op.in]: usernames } },
+	});
+	if (removedChatIds.length > 0) {
+		await OrganizationMember.destroy({ where: { userId: { [Op.in]: removedChatIds } } });
+	}
+	return { deletedCount, removedChatIds };
+}
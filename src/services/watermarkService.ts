@@ -0,0 +1,50 @@
+import { Op } from 'sequelize';
+import { RegionWatermark } from '../database/models/RegionWatermark';
+import { logger } from '../logger';
+import { shiftIsoDate } from '../utils/dates';
+
+/**
+ * Загружает водяные знаки (последние успешно обработанные даты) для списка регионов.
+ */
+export async function loadRegionWatermarks(regions: string[]): Promise<Map<string, string>> {
+	const rows = await RegionWatermark.findAll({
+		where: { region: { [Op.in]: regions } },
+		attributes: ['region', 'lastProcessedDate'],
+		raw: true,
+	});
+	return new Map(rows.map(row => [row.region, row.lastProcessedDate]));
+}
+
+/**
+ * Определяет начало периода выборки для региона.
+ * День водяного знака запрашивается повторно: после последнего запуска в нем могли появиться
+ * новые заключения, а повторная отправка исключается дедупликацией.
+ * Без водяного знака (новый регион) берется только текущий день.
+ */
+export function getFetchStartDate(watermark: string | undefined, today: string, maxCatchUpDays: number): string {
+	if (!watermark || watermark > today) {
+		return today;
+	}
+	const earliest = shiftIsoDate(today, -maxCatchUpDays);
+	if (watermark < earliest) {
+		logger.warn(`[SCHEDULER] Водяной знак ${watermark} старше ${maxCatchUpDays} дней, догрузка начнется с ${earliest}`);
+		return earliest;
+	}
+	return watermark;
+}
+
+/**
+ * Сдвигает водяной знак региона. Вызывается только после успешной обработки периода.
+ */
+export async function advanceRegionWatermark(region: string, processedDate: string): Promise<void> {
+	try {
+		await RegionWatermark.upsert({
+			region,
+			lastProcessedDate: processedDate,
+			lastRunAt: new Date(),
+		});
+	} catch (error) {
+		// Несдвинутый водяной знак безопасен: период будет запрошен повторно
+		logger.error(`[SCHEDULER] Не удалось сохранить водяной знак региона "${region}":`, error);
+	}
+}
@@ -0,0 +1,467 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Op } from 'sequelize';
+import { config } from '../config';
+import { Webhook } from '../database/models/Webhook';
+import { WebhookDelivery } from '../database/models/WebhookDelivery';
+import { logger } from '../logger';
+import { IEgrzRecord } from '../types/egrz.types';
+import { ILeadClassification } from './leadExtraction';
+
+// =================================================================================
+// КОНФИГУРАЦИЯ ДОСТАВКИ ВЕБХУКОВ
+// =================================================================================
+const WEBHOOK_CONFIG = {
+	// Интервал опроса очереди (мс)
+	POLL_INTERVAL: 5000,
+	// Сколько ожидающих доставок обрабатывать за один проход
+	BATCH_SIZE: 20,
+	// Таймаут запроса к получателю (мс)
+	REQUEST_TIMEOUT: 10 * 1000,
+	// Срок, на который воркер захватывает доставки прохода (мс); с запасом покрывает
+	// последовательную отправку всего прохода в один недоступный вебхук
+	CLAIM_TTL: 5 * 60 * 1000,
+	// После стольких неудачных попыток доставка помечается как failed
+	MAX_ATTEMPTS: 8,
+	// Экспоненциальная задержка между попытками (мс)
+	BASE_BACKOFF: 30 * 1000,
+	MAX_BACKOFF: 60 * 60 * 1000,
+	// Сколько символов ответа получателя сохранять в журнале
+	MAX_ERROR_LENGTH: 500,
+};
+
+// Адреса для локальной отладки (в том числе по http), доступны только при WEBHOOK_ALLOW_LOCAL=true
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+// Внутренние сети, в которые вебхук не должен отправлять запросы (кроме локальных адресов выше)
+const BLOCKED_ADDRESSES = createBlockedAddressList();
+
+// Соединение устанавливается только с адресами, прошедшими проверку в момент подключения:
+// повторное разрешение имени при отправке не может подменить адрес на внутренний
+const webhookHttpAgent = new http.Agent({ lookup: publicAddressLookup });
+const webhookHttpsAgent = new https.Agent({ lookup: publicAddressLookup });
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const DELIVERY_ID_HEADER = 'X-Webhook-Delivery';
+
+export interface ILeadWebhookPayload {
+	event: 'lead.created';
+	conclusionNumber: string;
+	region: string;
+	// Текст сообщения в том виде, в котором его получают пользователи Telegram
+	message: string;
+	classification: ILeadClassification | null;
+	record: IEgrzRecord;
+	createdAt: string;
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let isTickRunning = false;
+
+// =================================================================================
+// РЕГИСТРАЦИЯ
+// =================================================================================
+
+function createBlockedAddressList(): net.BlockList {
+	const list = new net.BlockList();
+	list.addSubnet('0.0.0.0', 8, 'ipv4');
+	list.addSubnet('10.0.0.0', 8, 'ipv4');
+	// CGNAT
+	list.addSubnet('100.64.0.0', 10, 'ipv4');
+	list.addSubnet('127.0.0.0', 8, 'ipv4');
+	// Link-local, в том числе метаданные облачных провайдеров (169.254.169.254)
+	list.addSubnet('169.254.0.0', 16, 'ipv4');
+	list.addSubnet('172.16.0.0', 12, 'ipv4');
+	list.addSubnet('192.168.0.0', 16, 'ipv4');
+	list.addAddress('::', 'ipv6');
+	list.addAddress('::1', 'ipv6');
+	list.addSubnet('fc00::', 7, 'ipv6');
+	list.addSubnet('fe80::', 10, 'ipv6');
+	return list;
+}
+
+function isLocalHostname(hostname: string): boolean {
+	return config.WEBHOOK_ALLOW_LOCAL && LOCAL_HOSTNAMES.has(hostname);
+}
+
+// IPv4-адрес в записи IPv6 (::ffff:127.0.0.1 или ::ffff:7f00:1) проверяется по правилам IPv4
+function unwrapMappedIpv4(address: string): string | null {
+	const match = address.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i);
+	if (!match) return null;
+	if (match[1]) return match[1];
+	const high = parseInt(match[2], 16);
+	const low = parseInt(match[3], 16);
+	return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+function isBlockedAddress(entry: dns.LookupAddress): boolean {
+	if (entry.family === 6) {
+		const ipv4 = unwrapMappedIpv4(entry.address);
+		return ipv4 ? BLOCKED_ADDRESSES.check(ipv4, 'ipv4') : BLOCKED_ADDRESSES.check(entry.address, 'ipv6');
+	}
+	return BLOCKED_ADDRESSES.check(entry.address, 'ipv4');
+}
+
+function findBlockedAddress(addresses: dns.LookupAddress[]): dns.LookupAddress | undefined {
+	return addresses.find(isBlockedAddress);
+}
+
+/**
+ * Разрешение имени для агентов отправки: отклоняет хосты, хотя бы один адрес которых во внутренней сети.
+ * IP-адрес в URL не разрешается через lookup, поэтому его проверяет validateWebhookUrl.
+ */
+function publicAddressLookup(
+	hostname: string,
+	options: dns.LookupOptions,
+	callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void,
+): void {
+	dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+		if (error) {
+			callback(error, '');
+			return;
+		}
+		const blocked = isLocalHostname(hostname) ? undefined : findBlockedAddress(addresses);
+		if (blocked) {
+			callback(new Error(`Хост ${hostname} указывает на внутренний адрес ${blocked.address}`), '');
+			return;
+		}
+		if (options.all) {
+			callback(null, addresses);
+			return;
+		}
+		callback(null, addresses[0].address, addresses[0].family);
+	});
+}
+
+/**
+ * Проверяет адрес вебхука. Возвращает текст ошибки или null, если адрес подходит.
+ * Хост разрешается через DNS: адреса во внутренних сетях запрещены, чтобы через вебхук
+ * нельзя было обращаться к сервисам внутри инфраструктуры.
+ */
+export async function validateWebhookUrl(rawUrl: string): Promise<string | null> {
+	let url: URL;
+	try {
+		url = new URL(rawUrl);
+	} catch (e) {
+		return 'Некорректный URL.';
+	}
+
+	if (isLocalHostname(url.hostname)) {
+		return url.protocol === 'http:' || url.protocol === 'https:' ? null : 'Адрес должен начинаться с https://.';
+	}
+	if (url.protocol !== 'https:') {
+		return 'Адрес должен начинаться с https://.';
+	}
+
+	let addresses: dns.LookupAddress[];
+	try {
+		// IPv6-адрес в URL записывается в квадратных скобках
+		addresses = await dns.promises.lookup(url.hostname.replace(/^\[|\]$/g, ''), { all: true, verbatim: true });
+	} catch (error: any) {
+		return `Не удалось определить IP-адрес хоста ${url.hostname}: ${error.code || error.message}.`;
+	}
+
+	const blocked = findBlockedAddress(addresses);
+	if (blocked) {
+		return `Хост ${url.hostname} указывает на внутренний адрес ${blocked.address}.`;
+	}
+	return null;
+}
+
+export async function createWebhook(ownerId: number, url: string, allLeads: boolean): Promise<Webhook> {
+	const webhook = await Webhook.create({
+		ownerId,
+		url,
+		secret: crypto.randomBytes(32).toString('hex'),
+		allLeads,
+	});
+	logger.info(`[WEBHOOKS] Пользователь ${ownerId} зарегистрировал вебхук #${webhook.id}: ${url}`);
+	return webhook;
+}
+
+export async function listWebhooks(ownerId: number): Promise<Webhook[]> {
+	return Webhook.findAll({ where: { ownerId }, order: [['id', 'ASC']] });
+}
+
+export async function getOwnedWebhook(ownerId: number, webhookId: number): Promise<Webhook | null> {
+	return Webhook.findOne({ where: { id: webhookId, ownerId } });
+}
+
+export async function deleteWebhook(webhook: Webhook): Promise<void> {
+	await WebhookDelivery.destroy({ where: { webhookId: webhook.id, status: { [Op.in]: ['pending', 'sending'] } } });
+	await webhook.destroy();
+	logger.info(`[WEBHOOKS] Вебхук #${webhook.id} удален`);
+}
+
+export async function getRecentDeliveries(webhookId: number, limit: number = 10): Promise<WebhookDelivery[]> {
+	return WebhookDelivery.findAll({ where: { webhookId }, order: [['id', 'DESC']], limit });
+}
+
+// =================================================================================
+// ПОСТАНОВКА В ОЧЕРЕДЬ
+// =================================================================================
+
+/**
+ * Ставит новый лид в очередь вебхуков получателей и вебхуков "все лиды".
+ * Ошибки логируются и не мешают доставке в Telegram.
+ */
+export async function enqueueLeadWebhooks(
+	record: IEgrzRecord,
+	region: string,
+	message: string,
+	classification: ILeadClassification | null,
+	recipientIds: number[],
+): Promise<void> {
+	const conclusionNumber = record['Номер заключения экспертизы'];
+	try {
+		const webhooks = await Webhook.findAll({
+			where: {
+				isActive: true,
+				[Op.or]: [{ allLeads: true }, { ownerId: { [Op.in]: recipientIds } }],
+			},
+			attributes: ['id'],
+		});
+		if (webhooks.length === 0) return;
+
+		const payload: ILeadWebhookPayload = {
+			event: 'lead.created',
+			conclusionNumber,
+			region,
+			message,
+			classification,
+			record,
+			createdAt: new Date().toISOString(),
+		};
+		const serializedPayload = JSON.stringify(payload);
+
+		// Уникальный индекс (webhookId, conclusionNumber) отсекает повторную постановку того же лида
+		await WebhookDelivery.bulkCreate(
+			webhooks.map(webhook => ({ webhookId: webhook.id, event: payload.event, conclusionNumber, payload: serializedPayload })),
+			{ ignoreDuplicates: true },
+		);
+		logger.debug(`[WEBHOOKS] Лид "${conclusionNumber}" поставлен в очередь ${webhooks.length} вебхуков`);
+	} catch (error) {
+		logger.error(`[WEBHOOKS] Не удалось поставить лид "${conclusionNumber}" в очередь вебхуков:`, error);
+	}
+}
+
+/**
+ * Ставит в очередь тестовое событие для проверки подписи на стороне получателя.
+ */
+export async function enqueueTestWebhook(webhook: Webhook): Promise<void> {
+	await WebhookDelivery.create({
+		webhookId: webhook.id,
+		event: 'webhook.test',
+		payload: JSON.stringify({ event: 'webhook.test', webhookId: webhook.id, createdAt: new Date().toISOString() }),
+	});
+}
+
+// =================================================================================
+// ПОДПИСЬ
+// =================================================================================
+
+/**
+ * Подпись запроса: HMAC-SHA256 от строки "<timestamp>.<тело>" в hex.
+ * Получатель вычисляет ее тем же секретом и сравнивает с заголовком X-Webhook-Signature.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+	return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// =================================================================================
+// ВОРКЕР ОТПРАВКИ
+// =================================================================================
+export function startWebhookWorker(): void {
+	if (workerTimer) return;
+	logger.info('[WEBHOOKS] Воркер доставки вебхуков запущен');
+	scheduleNextTick();
+}
+
+export function stopWebhookWorker(): void {
+	if (workerTimer) {
+		clearTimeout(workerTimer);
+		workerTimer = null;
+		logger.info('[WEBHOOKS] Воркер доставки вебхуков остановлен');
+	}
+}
+
+function scheduleNextTick(): void {
+	workerTimer = setTimeout(async () => {
+		await processWebhookTick();
+		if (workerTimer) {
+			scheduleNextTick();
+		}
+	}, WEBHOOK_CONFIG.POLL_INTERVAL);
+}
+
+async function processWebhookTick(): Promise<void> {
+	if (isTickRunning) return;
+	isTickRunning = true;
+
+	let claimToken: string | null = null;
+	try {
+		await releaseExpiredClaims();
+
+		const candidates = await WebhookDelivery.findAll({
+			where: { status: 'pending', nextAttemptAt: { [Op.lte]: new Date() } },
+			attributes: ['id'],
+			order: [['id', 'ASC']],
+			limit: WEBHOOK_CONFIG.BATCH_SIZE,
+			raw: true,
+		});
+		if (candidates.length === 0) return;
+
+		// Захват атомарен: доставка, которую успел захватить другой экземпляр, уже не в статусе pending
+		claimToken = crypto.randomBytes(16).toString('hex');
+		await WebhookDelivery.update(
+			{ status: 'sending', claimToken, claimedUntil: new Date(Date.now() + WEBHOOK_CONFIG.CLAIM_TTL) },
+			{ where: { id: { [Op.in]: candidates.map(candidate => candidate.id) }, status: 'pending' } },
+		);
+		const claimed = await WebhookDelivery.findAll({
+			where: { claimToken, status: 'sending' },
+			order: [['id', 'ASC']],
+		});
+		if (claimed.length === 0) return;
+
+		const webhooks = await Webhook.findAll({ where: { id: { [Op.in]: claimed.map(delivery => delivery.webhookId) } } });
+		const webhooksById = new Map(webhooks.map(webhook => [webhook.id, webhook]));
+
+		const deliveriesByWebhook = new Map<number, WebhookDelivery[]>();
+		for (const delivery of claimed) {
+			const deliveries = deliveriesByWebhook.get(delivery.webhookId) || [];
+			deliveries.push(delivery);
+			deliveriesByWebhook.set(delivery.webhookId, deliveries);
+		}
+
+		// Вебхуки обслуживаются параллельно, чтобы недоступный получатель не задерживал остальных
+		const results = await Promise.allSettled(
+			Array.from(deliveriesByWebhook, ([webhookId, deliveries]) => deliverToWebhook(webhooksById.get(webhookId), deliveries)),
+		);
+		for (const result of results) {
+			if (result.status === 'rejected') {
+				logger.error('[WEBHOOKS] Ошибка доставки вебхука:', result.reason);
+			}
+		}
+	} catch (error) {
+		logger.error('[WEBHOOKS] Ошибка обработки очереди вебхуков:', error);
+	} finally {
+		// Доставки, которые не удалось обработать в этом проходе, возвращаются в очередь
+		if (claimToken) {
+			await releaseClaim(claimToken);
+		}
+		isTickRunning = false;
+	}
+}
+
+async function releaseClaim(claimToken: string): Promise<void> {
+	try {
+		await WebhookDelivery.update(
+			{ status: 'pending', claimToken: null, claimedUntil: null },
+			{ where: { claimToken, status: 'sending' } },
+		);
+	} catch (error) {
+		// Захват истечет сам через CLAIM_TTL
+		logger.error('[WEBHOOKS] Не удалось вернуть доставки в очередь:', error);
+	}
+}
+
+// Доставки, захваченные упавшим процессом, возвращаются в очередь после истечения захвата
+async function releaseExpiredClaims(): Promise<void> {
+	const [released] = await WebhookDelivery.update(
+		{ status: 'pending', claimToken: null, claimedUntil: null },
+		{ where: { status: 'sending', claimedUntil: { [Op.lt]: new Date() } } },
+	);
+	if (released > 0) {
+		logger.warn(`[WEBHOOKS] В очередь возвращено ${released} доставок с истекшим захватом`);
+	}
+}
+
+// Доставки одного вебхука отправляются по очереди, в порядке постановки
+async function deliverToWebhook(webhook: Webhook | undefined, deliveries: WebhookDelivery[]): Promise<void> {
+	for (const delivery of deliveries) {
+		if (!webhook || !webhook.isActive) {
+			await delivery.update({ status: 'failed', lastError: 'Вебхук удален или отключен', claimToken: null, claimedUntil: null });
+			continue;
+		}
+		await deliverWebhook(webhook, delivery);
+	}
+}
+
+async function deliverWebhook(webhook: Webhook, delivery: WebhookDelivery): Promise<void> {
+	const timestamp = Math.floor(Date.now() / 1000);
+	const attempts = delivery.attempts + 1;
+
+	// Адрес проверяется перед каждой отправкой: запись DNS или WEBHOOK_ALLOW_LOCAL могли измениться после регистрации
+	const urlError = await validateWebhookUrl(webhook.url);
+	if (urlError) {
+		await scheduleRetry(delivery, attempts, urlError, null);
+		return;
+	}
+
+	try {
+		const response = await axios.post(webhook.url, delivery.payload, {
+			headers: {
+				'Content-Type': 'application/json',
+				[SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+				[TIMESTAMP_HEADER]: String(timestamp),
+				[DELIVERY_ID_HEADER]: String(delivery.id),
+			},
+			timeout: WEBHOOK_CONFIG.REQUEST_TIMEOUT,
+			// Тело уже сериализовано и подписано, axios не должен его менять
+			transformRequest: [(data: string) => data],
+			// Редирект изменил бы адрес получателя без повторной проверки
+			maxRedirects: 0,
+			httpAgent: webhookHttpAgent,
+			httpsAgent: webhookHttpsAgent,
+			// Через прокси соединение ушло бы мимо проверки адресов в агентах
+			proxy: false,
+			validateStatus: () => true,
+		});
+
+		if (response.status >= 200 && response.status < 300) {
+			await delivery.update({
+				status: 'sent',
+				attempts,
+				responseStatus: response.status,
+				lastError: null,
+				sentAt: new Date(),
+				claimToken: null,
+				claimedUntil: null,
+			});
+			logger.debug(`[WEBHOOKS] Доставка #${delivery.id} в вебхук #${webhook.id} выполнена (HTTP ${response.status})`);
+			return;
+		}
+
+		const body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data ?? '');
+		await scheduleRetry(delivery, attempts, `HTTP ${response.status}: ${body}`, response.status);
+	} catch (error: any) {
+		await scheduleRetry(delivery, attempts, error.message || String(error), null);
+	}
+}
+
+async function scheduleRetry(delivery: WebhookDelivery, attempts: number, reason: string, responseStatus: number | null): Promise<void> {
+	const lastError = reason.slice(0, WEBHOOK_CONFIG.MAX_ERROR_LENGTH);
+
+	if (attempts >= WEBHOOK_CONFIG.MAX_ATTEMPTS) {
+		logger.error(`[WEBHOOKS] Доставка #${delivery.id} в вебхук #${delivery.webhookId} не выполнена после ${attempts} попыток: ${lastError}`);
+		await delivery.update({ status: 'failed', attempts, responseStatus, lastError, claimToken: null, claimedUntil: null });
+		return;
+	}
+
+	const backoff = Math.min(WEBHOOK_CONFIG.BASE_BACKOFF * Math.pow(2, attempts - 1), WEBHOOK_CONFIG.MAX_BACKOFF);
+	logger.warn(`[WEBHOOKS] Попытка ${attempts} доставки #${delivery.id} в вебхук #${delivery.webhookId} не удалась: ${lastError}. Повтор через ${Math.round(backoff / 1000)}с`);
+	await delivery.update({
+		status: 'pending',
+		attempts,
+		responseStatus,
+		lastError,
+		nextAttemptAt: new Date(Date.now() + backoff),
+		claimToken: null,
+		claimedUntil: null,
+	});
+}
@@ -1,3 +1,24 @@
+export type LeadFilterField = 'object' | 'developer' | 'preparer';
+export type LeadFilterMode = 'include' | 'exclude';
+
+// Правило фильтрации лидов: ключевое слово или регулярное выражение (/.../)
+export interface ILeadFilterRule {
+	field: LeadFilterField;
+	mode: LeadFilterMode;
+	pattern: string;
+	// Регион подписки, к которой относится правило (нет — ко всем подпискам)
+	region?: string;
+}
+
+// Тип объекта и вид работ, которые AI определяет для каждого лида
+export type LeadObjectType = 'residential' | 'industrial' | 'social' | 'infrastructure' | 'other';
+export type LeadConstructionType = 'new' | 'reconstruction';
+
 export interface IUserConfig {
 	regions: string[];
-}
\ No newline at end of file
+	filters?: ILeadFilterRule[];
+	// Получать только лиды этих типов (пусто — все)
+	categories?: LeadObjectType[];
+	// Минимальная оценка привлекательности лида от AI, 0–100
+	minScore?: number;
+}
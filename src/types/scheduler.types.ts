@@ -0,0 +1,21 @@
+export interface ProcessingResult {
+	region: string;
+	totalRecords: number;
+	processedRecords: number;
+	skippedRecords: number;
+	errorRecords: number;
+	// Выборка была обрезана лимитом страниц, часть записей не получена
+	pageLimitReached?: boolean;
+	// Текст последней ошибки по региону
+	errorMessage?: string;
+}
+
+export interface RegenerationResult {
+	// Сохраненных записей ЕГРЗ (таблица leads) за период
+	totalRecords: number;
+	// Из них найдено в кеше обработанных сообщений с устаревшей версией промпта
+	staleRecords: number;
+	regeneratedRecords: number;
+	// AI недоступен или вернул невалидный ответ — сообщение оставлено прежним
+	failedRecords: number;
+}
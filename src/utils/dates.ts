@@ -0,0 +1,48 @@
+// Все даты здесь — строки в формате YYYY-MM-DD (как в фильтрах API ЕГРЗ)
+
+// Москва живет по UTC+3 без перехода на летнее время
+const MOSCOW_UTC_OFFSET = '+03:00';
+
+export function getTodayMoscowDate(): string {
+	return toMoscowDate(new Date());
+}
+
+// Дата по Москве, на которую приходится момент времени
+export function toMoscowDate(moment: Date): string {
+	// Локаль en-CA форматирует дату как YYYY-MM-DD независимо от часового пояса сервера
+	return moment.toLocaleDateString('en-CA', { timeZone: 'Europe/Moscow' });
+}
+
+// Начало дня по Москве в виде момента времени
+export function getMoscowDayStart(date: string): Date {
+	return new Date(`${date}T00:00:00${MOSCOW_UTC_OFFSET}`);
+}
+
+export function isValidIsoDate(value: string): boolean {
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+	// Несуществующий месяц дает Invalid Date, а 31 число короткого месяца переносится на следующий
+	const date = new Date(`${value}T00:00:00Z`);
+	return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// Сдвигает дату на указанное количество дней (может быть отрицательным)
+export function shiftIsoDate(date: string, days: number): string {
+	const result = new Date(`${date}T00:00:00Z`);
+	result.setUTCDate(result.getUTCDate() + days);
+	return result.toISOString().split('T')[0];
+}
+
+// Возвращает список дат от dateFrom до dateTo включительно
+export function enumerateDays(dateFrom: string, dateTo: string): string[] {
+	const days: string[] = [];
+	for (let day = dateFrom; day <= dateTo; day = shiftIsoDate(day, 1)) {
+		days.push(day);
+	}
+	return days;
+}
+
+// Преобразует дату из CSV ЕГРЗ (DD.MM.YYYY) в YYYY-MM-DD; null для нераспознанного значения
+export function parseRuDate(value: string | undefined): string | null {
+	const match = (value || '').trim().match(/^(\d{2})\.(\d{2})\.(\d{4})/);
+	return match ? `${match[3]}-${match[2]}-${match[1]}` : null;
+}
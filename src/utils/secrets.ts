@@ -0,0 +1,8 @@
+import * as crypto from 'crypto';
+
+// Сравнение секретов за постоянное время, чтобы не раскрывать совпавший префикс по времени ответа
+export function safeEqual(a: string, b: string): boolean {
+	const left = Buffer.from(a);
+	const right = Buffer.from(b);
+	return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
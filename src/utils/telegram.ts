@@ -0,0 +1,6 @@
+// 403 — бот заблокирован, 400 "chat not found" — чат удален или недоступен
+export function isChatUnreachableError(error: any): boolean {
+	const statusCode = error.response?.statusCode;
+	const description: string = error.response?.body?.description || '';
+	return statusCode === 403 || (statusCode === 400 && description.includes('chat not found'));
+}